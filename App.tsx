@@ -1,27 +1,59 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef, useLayoutEffect } from 'react';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine 
+  ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine 
 } from 'recharts';
 import { 
   Upload, Download, Calendar, AlertTriangle, FileText, Activity, 
-  MessageSquare, ChevronDown, ChevronUp, RefreshCw, Settings, Save, ArrowLeft, Check, X
+  MessageSquare, ChevronDown, ChevronUp, ChevronRight, RefreshCw, Settings, Save, ArrowLeft, Check, X, TrendingUp, Target,
+  Eye, EyeOff, Trash2, Minus, FileSpreadsheet
 } from 'lucide-react';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { format, subMonths, isWithinInterval, startOfMonth, endOfMonth, parseISO } from 'date-fns';
 
 import { 
   Language, DateRangeOption, FinancialRecord, Anomaly, 
-  MonthlyAggregatedData, Comment, AIInsight, LookupRule, Theme
+  MonthlyAggregatedData, Comment, AIInsight, LookupRule, Theme, AnomalyMethod, AnomalySettings, BudgetEntry,
+  ColumnMapping, MappingProfile, ImportReport, UploadSheet, WorkspaceState, ChartView, ComparisonBasis, InsightProviderSettings,
+  InsightStatus
 } from './types';
-import { LABELS, THEMES } from './constants';
+import {
+  LABELS, THEMES, BASELINE_LABELS, METHOD_LABELS, FORECAST_METHOD_LABELS, FIELD_LABELS, CHART_VIEW_LABELS, COMPARISON_LABELS
+} from './constants';
 import { 
   formatCurrency, detectAnomalies, generateDemoData, downloadTemplate, 
-  formatDate, DEFAULT_LOOKUP_RULES, applyLookupRules, downloadLookupTemplate 
+  formatDate, formatMonth, DEFAULT_LOOKUP_RULES, applyLookupRules, downloadLookupTemplate, getAnomalyRecords,
+  DEFAULT_ANOMALY_SETTINGS, formatAnomalyScore, aggregateMonthly, addPrevYearAmounts, calculateGrowth,
+  guessColumnMapping, findMatchingProfile, parseWithMapping, parseLookupRules,
+  subCategoryKey, matchesTypeSelection, groupSubCategories, getComparisonBounds, sumByRevenueType, buildRevenueBridge
 } from './utils';
-import { generateFinancialInsight } from './services/geminiService';
+import { generateFinancialInsight, buildInsightContext, getInsightInputHash, getCachedInsight } from './services/geminiService';
+import { createInsightProvider, loadProviderSettings, saveProviderSettings } from './services/insightProviderService';
+import { mapWithConcurrency } from './services/rateLimitService';
+import { forecastRevenue } from './services/forecastService';
+import { calculateKpis } from './services/kpiService';
+import { renderChartImage, generateReport } from './services/reportService';
+import { downloadAnalysisWorkbook } from './services/workbookService';
+import { parseBudgetData } from './services/budgetService';
+import { loadMappingProfiles, saveMappingProfile, deleteMappingProfile } from './services/mappingProfileService';
+import { readUploadFile, mergeRecords, summarizeSources } from './services/importService';
+import {
+  listWorkspaces, loadWorkspace, saveWorkspace, deleteWorkspace, getActiveWorkspaceName, setActiveWorkspaceName,
+  exportWorkspace, parseWorkspaceFile, DEFAULT_WORKSPACE
+} from './services/workspaceService';
+import AnomalySettingsPanel from './components/AnomalySettingsPanel';
+import BudgetVariancePanel from './components/BudgetVariancePanel';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import ImportReportPanel from './components/ImportReportPanel';
+import SheetPicker from './components/SheetPicker';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import LookupRuleEditor from './components/LookupRuleEditor';
+import UnmatchedPanel from './components/UnmatchedPanel';
+import RevenueMixChart from './components/RevenueMixChart';
+import KpiStrip from './components/KpiStrip';
+import CustomerAnalysisPanel from './components/CustomerAnalysisPanel';
+import MrrMovementPanel from './components/MrrMovementPanel';
+import AIInsightPanel from './components/AIInsightPanel';
+import InsightProviderSettingsPanel from './components/InsightProviderSettingsPanel';
+import RevenueChatPanel from './components/RevenueChatPanel';
 
 // --- Logo Component ---
 // Uses a placeholder image of a Great Spotted Woodpecker (Grote Bonte Specht)
@@ -36,6 +68,18 @@ const Logo: React.FC<{ className?: string }> = ({ className }) => (
   </div>
 );
 
+// Chart data keys for the year-over-year and forecast series of a revenue type
+const PREV_YEAR_SUFFIX = '__prevYear';
+const YOY_SUFFIX = '__yoy';
+const FORECAST_SUFFIX = '__forecast';
+const FORECAST_BAND_SUFFIX = '__forecastBand';
+const FORECAST_HORIZONS = [3, 6, 12];
+const DEMO_SOURCE = 'Demo';
+const AUTOSAVE_DELAY_MS = 800;
+const MAX_CONCURRENT_INSIGHTS = 2;
+
+type UploadTarget = 'data' | 'lookup' | 'budget';
+
 const App: React.FC = () => {
   // --- State ---
   const [language, setLanguage] = useState<Language>(Language.NL);
@@ -49,26 +93,61 @@ const App: React.FC = () => {
 
   const [rawData, setRawData] = useState<FinancialRecord[]>([]);
   const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [anomalySettings, setAnomalySettings] = useState<AnomalySettings>(DEFAULT_ANOMALY_SETTINGS);
   
   // Lookup State
   const [lookupRules, setLookupRules] = useState<LookupRule[]>(DEFAULT_LOOKUP_RULES);
-  const [unmatchedItems, setUnmatchedItems] = useState<string[]>([]);
+
+  // Import State
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [pendingSheets, setPendingSheets] = useState<UploadSheet[] | null>(null);
+  const [pendingImports, setPendingImports] = useState<{ data: any[][]; fileName: string; mapping: ColumnMapping }[]>([]);
+  const [lastUpload, setLastUpload] = useState<{ data: any[][]; fileName: string; profileName?: string } | null>(null);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+  const [hiddenSources, setHiddenSources] = useState<string[]>([]);
+
+  // Budget State
+  const [budget, setBudget] = useState<BudgetEntry[]>([]);
+  const [budgetThreshold, setBudgetThreshold] = useState<number>(10);
   const [showSettings, setShowSettings] = useState(false);
   
   const [dateRange, setDateRange] = useState<DateRangeOption>(DateRangeOption.MONTHS_6);
+  const [showYoY, setShowYoY] = useState(false);
+  const [forecastHorizon, setForecastHorizon] = useState<number>(0);
+  const [chartView, setChartView] = useState<ChartView>(ChartView.LINES);
+  const [comparisonBasis, setComparisonBasis] = useState<ComparisonBasis>(ComparisonBasis.PREVIOUS_PERIOD);
+  const [isExporting, setIsExporting] = useState(false);
+  const trendChartRef = useRef<HTMLDivElement>(null);
   const [customStart, setCustomStart] = useState<string>('');
   const [customEnd, setCustomEnd] = useState<string>('');
   
   // Multi-Select State
   const [selectedRevenueTypes, setSelectedRevenueTypes] = useState<string[]>([]);
+  const [selectedSubCategories, setSelectedSubCategories] = useState<string[]>([]);
+  const [expandedFilterTypes, setExpandedFilterTypes] = useState<Set<string>>(new Set());
   const [isMultiSelectOpen, setIsMultiSelectOpen] = useState(false);
   const multiSelectRef = useRef<HTMLDivElement>(null);
 
+  // Drill-down of the trend chart: main categories -> subcategories -> transactions
+  const [drillDown, setDrillDown] = useState<{ revenueType?: string; subCategory?: string }>({});
+
   const [comments, setComments] = useState<Comment[]>([]);
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   
   const [aiInsights, setAiInsights] = useState<Record<string, AIInsight>>({});
-  const [isLoadingAI, setIsLoadingAI] = useState(false);
+  const [insightStatus, setInsightStatus] = useState<Record<string, InsightStatus>>({});
+  // Latest request in flight per revenue type; a completion whose token is no longer here is stale and dropped
+  const insightRequestsRef = useRef<Map<string, { hash: string; token: number }>>(new Map());
+  const insightTokenRef = useRef(0);
+  const [providerSettings, setProviderSettings] = useState<InsightProviderSettings>(() => loadProviderSettings());
+  const insightProvider = useMemo(() => createInsightProvider(providerSettings), [providerSettings]);
+
+  // Workspace State
+  const [workspaceName, setWorkspaceName] = useState<string>(() => getActiveWorkspaceName());
+  const [workspaces, setWorkspaces] = useState<{ name: string; updatedAt: Date }[]>([]);
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+  const isRestoringRef = useRef(false);
+  const [restoreCount, setRestoreCount] = useState(0); // Bumped per restore, so the effects below see one even when the record count stays the same
 
   // --- Theme Application Effect ---
   useLayoutEffect(() => {
@@ -109,10 +188,81 @@ const App: React.FC = () => {
     };
   }, []);
 
-  // Process data
-  const filteredData = useMemo(() => {
-    if (rawData.length === 0) return [];
+  // --- Workspace Persistence ---
+  const workspaceState = useMemo((): WorkspaceState => ({
+    appName, themeId: currentThemeId, language, rawData, lookupRules, comments, aiInsights,
+    anomalySettings, budget, budgetThreshold, dateRange, customStart, customEnd,
+    selectedRevenueTypes, selectedSubCategories, hiddenSources, showYoY, forecastHorizon
+  }), [
+    appName, currentThemeId, language, rawData, lookupRules, comments, aiInsights,
+    anomalySettings, budget, budgetThreshold, dateRange, customStart, customEnd,
+    selectedRevenueTypes, selectedSubCategories, hiddenSources, showYoY, forecastHorizon
+  ]);
+
+  const applyWorkspaceState = (state: Partial<WorkspaceState>) => {
+    isRestoringRef.current = true;
+    setRestoreCount(count => count + 1);
+    const rules = state.lookupRules || DEFAULT_LOOKUP_RULES;
+    const { processedRecords } = applyLookupRules(state.rawData || [], rules);
+    if (state.appName) setAppName(state.appName);
+    if (state.themeId) setCurrentThemeId(state.themeId);
+    if (state.language) setLanguage(state.language);
+    setRawData(processedRecords);
+    setLookupRules(rules);
+    setComments(state.comments || []);
+    setAiInsights(state.aiInsights || {});
+    setInsightStatus({});
+    insightRequestsRef.current.clear(); // Analyses still running belong to the previous workspace
+    setAnomalySettings({ ...DEFAULT_ANOMALY_SETTINGS, ...state.anomalySettings });
+    setBudget(state.budget || []);
+    setBudgetThreshold(state.budgetThreshold ?? 10);
+    setDateRange(state.dateRange || DateRangeOption.MONTHS_6);
+    setCustomStart(state.customStart || '');
+    setCustomEnd(state.customEnd || '');
+    setSelectedRevenueTypes(state.selectedRevenueTypes || []);
+    setSelectedSubCategories(state.selectedSubCategories || []);
+    setHiddenSources(state.hiddenSources || []);
+    setShowYoY(!!state.showYoY);
+    setForecastHorizon(state.forecastHorizon || 0);
+    // Upload state belongs to the session, not the workspace
+    setImportReports([]);
+    setLastUpload(null);
+    setPendingImports([]);
+    setExpandedRows(new Set());
+    setDrillDown({});
+  };
+
+  const refreshWorkspaces = () => {
+    listWorkspaces().then(setWorkspaces).catch(error => console.error("Could not list workspaces:", error));
+  };
+
+  // Restore the workspace that was open last
+  useEffect(() => {
+    loadWorkspace(workspaceName)
+      .then(workspace => { if (workspace) applyWorkspaceState(workspace.state); })
+      .catch(error => console.error("Could not load workspace:", error))
+      .finally(() => {
+        setIsWorkspaceLoaded(true);
+        refreshWorkspaces();
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Autosave, debounced so typing in a comment or the app name does not write on every key
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    const timer = setTimeout(() => {
+      saveWorkspace(workspaceName, workspaceState).catch(error => {
+        console.error("Could not save workspace:", error);
+        alert(LABELS.storageUnavailable[language]);
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceState, workspaceName, isWorkspaceLoaded]);
 
+  // Analysis window
+  const periodBounds = useMemo(() => {
     let start: Date;
     let end: Date = new Date();
 
@@ -127,164 +277,315 @@ const App: React.FC = () => {
         break;
       default: start = subMonths(end, 6);
     }
-    start = startOfMonth(start);
-    end = endOfMonth(end);
+    return { start: startOfMonth(start), end: endOfMonth(end) };
+  }, [dateRange, customStart, customEnd]);
+
+  // Records of the sources that are switched on
+  const activeData = useMemo(() =>
+    hiddenSources.length === 0 ? rawData : rawData.filter(r => !hiddenSources.includes(r.source || '')),
+  [rawData, hiddenSources]);
+
+  // Type filter on both levels of the hierarchy
+  const matchesSelection = useCallback((r: FinancialRecord) =>
+    matchesTypeSelection(r, selectedRevenueTypes, selectedSubCategories),
+  [selectedRevenueTypes, selectedSubCategories]);
+
+  // Main categories touched by the filter, either whole or through one of their subcategories
+  const selectedMainTypes = useMemo(() =>
+    Array.from(new Set([...selectedRevenueTypes, ...selectedSubCategories.map(key => key.split('|')[0])])),
+  [selectedRevenueTypes, selectedSubCategories]);
+
+  // Process data
+  const filteredData = useMemo(() => {
+    if (activeData.length === 0) return [];
+
+    return activeData.filter(r => isWithinInterval(r.date, periodBounds) && matchesSelection(r));
+  }, [activeData, periodBounds, matchesSelection]);
 
-    return rawData.filter(r => 
-      isWithinInterval(r.date, { start, end }) && 
-      (selectedRevenueTypes.length === 0 || selectedRevenueTypes.includes(r.revenueType))
-    );
-  }, [rawData, dateRange, customStart, customEnd, selectedRevenueTypes]);
+  // Same selection over all dates, for baselines and comparisons outside the analysis window
+  const selectedHistory = useMemo(() => activeData.filter(matchesSelection), [activeData, matchesSelection]);
 
-  // Anomalies
+  // Budgets are set per main category, so their actuals cover whole main categories even when a subcategory is selected
+  const budgetActuals = useMemo(() =>
+    activeData.filter(r => selectedMainTypes.length === 0 || selectedMainTypes.includes(r.revenueType)),
+  [activeData, selectedMainTypes]);
+
+  // Anomalies: seasonal baselines need the full history, only the analysis window is reported
   useEffect(() => {
     if (filteredData.length > 0) {
-      const foundAnomalies = detectAnomalies(filteredData);
+      const foundAnomalies = detectAnomalies(selectedHistory, anomalySettings)
+        .filter(a => isWithinInterval(a.date, periodBounds));
       setAnomalies(foundAnomalies);
     } else {
       setAnomalies([]);
     }
-  }, [filteredData]);
-
-  // AI Analysis
-  const runAIAnalysis = useCallback(async () => {
-    if (rawData.length === 0) return;
-    setIsLoadingAI(true);
-    const allTypes = Array.from(new Set(rawData.map(r => r.revenueType))).filter(t => t !== 'Onbekend');
-    const typesToAnalyze = selectedRevenueTypes.length > 0 ? selectedRevenueTypes : allTypes;
-    const limitedTypes = typesToAnalyze.slice(0, 10);
-    
-    const newInsights: Record<string, AIInsight> = {};
-    await Promise.all(limitedTypes.map(async (type) => {
-      const records = rawData.filter(r => r.revenueType === type);
-      const insight = await generateFinancialInsight(type, records, language);
-      newInsights[type] = insight;
-    }));
+  }, [filteredData, selectedHistory, periodBounds, anomalySettings]);
+
+  // AI Analysis: the selected main categories, or all known revenue types
+  const insightTypes = useMemo(() => {
+    const allTypes = Array.from(new Set(activeData.map(r => r.revenueType))).filter(t => t !== 'Onbekend').sort();
+    return (selectedMainTypes.length > 0 ? selectedMainTypes : allTypes).slice(0, 10);
+  }, [activeData, selectedMainTypes]);
+
+  const isLoadingAI = Object.values(insightStatus).some(status => status === 'queued' || status === 'running');
+
+  // Insights are cached by input hash: only a changed series, language or model, or a refresh, costs a call
+  const runAIAnalysis = useCallback(async (types: string[], force = false) => {
+    if (activeData.length === 0) return;
+    const keepRestored = isRestoringRef.current;
+    const requests = insightRequestsRef.current;
+    const jobs = types.map(type => {
+      const records = activeData.filter(r => r.revenueType === type);
+      const context = buildInsightContext(type, records, detectAnomalies(records, anomalySettings));
+      return { type, context, hash: getInsightInputHash(context, language, insightProvider) };
+    }).filter(({ type, hash }) => requests.get(type)?.hash !== hash); // The same request is already on its way
+
+    const cached: Record<string, AIInsight> = {};
+    const pending = jobs.filter(({ type, hash }) => {
+      const current = aiInsights[type];
+      // Insights restored from before the cache carry no hash; they stay until refreshed
+      const isCurrent = current && !current.failed && (current.inputHash === hash || (keepRestored && !current.inputHash));
+      const hit = force ? undefined : isCurrent ? current : getCachedInsight(hash);
+      if (hit) cached[type] = hit;
+      return !hit;
+    });
+    setAiInsights(prev => ({ ...prev, ...cached }));
+    setInsightStatus(prev => {
+      const next = { ...prev };
+      Object.keys(cached).forEach(type => { next[type] = 'cached'; });
+      pending.forEach(({ type }) => { next[type] = 'queued'; });
+      return next;
+    });
+    // Whatever is still running for these types was asked for other data, language or model
+    Object.keys(cached).forEach(type => requests.delete(type));
+    if (pending.length === 0) return;
+    const queued = pending.map(job => ({ ...job, token: ++insightTokenRef.current }));
+    queued.forEach(({ type, hash, token }) => requests.set(type, { hash, token }));
+
+    await mapWithConcurrency(queued, MAX_CONCURRENT_INSIGHTS, async ({ type, context, token }) => {
+      const isLatest = () => requests.get(type)?.token === token;
+      if (!isLatest()) return; // Superseded while queued
+      setInsightStatus(prev => ({ ...prev, [type]: 'running' }));
+      const insight = await generateFinancialInsight(context, language, insightProvider, !force);
+      if (!isLatest()) return; // A newer request, or another workspace, took over
+      requests.delete(type);
+      // A failed refresh leaves the last good insight on screen
+      setAiInsights(prev => ({ ...prev, [type]: insight.failed && prev[type] && !prev[type].failed ? prev[type] : insight }));
+      setInsightStatus(prev => ({ ...prev, [type]: insight.failed ? 'failed' : 'done' }));
+    });
+  }, [activeData, anomalySettings, language, aiInsights, insightProvider]);
 
-    setAiInsights(prev => ({ ...prev, ...newInsights }));
-    setIsLoadingAI(false);
-  }, [rawData, selectedRevenueTypes, language]);
+  // A restored workspace keeps its insights, only changed series are sent to the model
+  useEffect(() => {
+    if (rawData.length > 0) runAIAnalysis(insightTypes);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rawData.length, restoreCount]);
 
+  // Newly selected revenue types, or another language, get their insight cards filled in
   useEffect(() => {
-    if (rawData.length > 0) runAIAnalysis();
+    if (rawData.length > 0 && !isRestoringRef.current) runAIAnalysis(insightTypes);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [rawData.length]); 
+  }, [insightTypes, language]);
+
+  // Only after both effects above have seen the restore: effects run in declaration order
+  useEffect(() => {
+    isRestoringRef.current = false;
+  }, [rawData.length, restoreCount, insightTypes, language]);
 
   // --- Handlers ---
-  const processFinancialData = (data: any[][]) => {
-    if (!data || data.length < 2) return;
-    const headers = data[0].map(h => String(h).toLowerCase().trim());
-    let dateIdx = headers.findIndex(h => ['datum', 'date', 'transactiedatum'].some(k => h.includes(k)));
-    let amountIdx = headers.findIndex(h => ['bedrag', 'amount', 'saldo'].some(k => h.includes(k)));
-    let idIdx = headers.findIndex(h => ['boekstuk', 'id', 'transactie'].some(k => h.includes(k)));
-    let descIdx = headers.findIndex(h => ['omschrijving', 'relatie', 'description', 'naam', 'klant'].some(k => h.includes(k)));
-    let typeIdx = headers.findIndex(h => ['omzetsoort', 'inkomsten', 'revenue', 'kostensoort', 'category', 'grootboek'].some(k => h.includes(k)));
-    
-    if (dateIdx === -1 && amountIdx === -1 && data[0].length >= 3) {
-        dateIdx = 0; typeIdx = 1; amountIdx = 2;
-        if (descIdx === -1) descIdx = 1; 
-    }
+  const importRecords = (records: FinancialRecord[]) => {
+    const { processedRecords } = applyLookupRules(records, lookupRules);
+    setRawData(processedRecords);
+  };
 
-    if (dateIdx === -1 || amountIdx === -1) {
-      alert(language === Language.NL ? "Kon datums of bedragen niet herkennen." : "Could not recognize dates or amounts.");
-      return;
-    }
+  // Appends the parsed sheets to the dataset, one source per sheet
+  const importParsed = (parsed: { records: FinancialRecord[]; report: ImportReport }[]) => {
+    let merged = rawData;
+    parsed.forEach(({ records, report }) => {
+      const result = mergeRecords(merged, records, report.fileName);
+      merged = result.records;
+      report.duplicatesRemoved = result.duplicatesRemoved;
+    });
+    importRecords(merged);
 
-    const records: FinancialRecord[] = data.slice(1).map((row, idx) => {
-      const rawDate = row[dateIdx];
-      const rawDesc = descIdx !== -1 ? row[descIdx] : '';
-      const rawType = typeIdx !== -1 ? row[typeIdx] : '';
-      const rawAmount = row[amountIdx];
-      const rawId = idIdx !== -1 ? row[idIdx] : `row-${idx}`;
-      
-      let dateObj = new Date(rawDate);
-      if (typeof rawDate === 'number') dateObj = new Date(Math.round((rawDate - 25569)*86400*1000));
-      else if (typeof rawDate === 'string') {
-          if (isNaN(dateObj.getTime())) {
-            const parts = rawDate.split(/[-/]/);
-            if (parts.length === 3) dateObj = new Date(`${parts[2]}-${parts[1]}-${parts[0]}`);
-          }
-      }
+    const imported = parsed.map(p => p.report.fileName);
+    setImportReports(prev => [...parsed.map(p => p.report), ...prev.filter(r => !imported.includes(r.fileName))]);
+  };
 
-      let amount = typeof rawAmount === 'number' ? rawAmount : 0;
-      if (typeof rawAmount === 'string') {
-        let clean = rawAmount.trim();
-        if (clean.includes(',') && !clean.includes('.')) clean = clean.replace(',', '.');
-        else if (clean.includes('.') && clean.includes(',')) {
-            if (clean.lastIndexOf(',') > clean.lastIndexOf('.')) clean = clean.replace(/\./g, '').replace(',', '.');
-            else clean = clean.replace(/,/g, '');
-        }
-        amount = parseFloat(clean);
+  // Applies a saved profile to every sheet whose headers match one, the others go through the wizard in turn
+  const processFinancialData = (sheets: UploadSheet[]) => {
+    const parsed: { records: FinancialRecord[]; report: ImportReport }[] = [];
+    const queued: { data: any[][]; fileName: string; mapping: ColumnMapping }[] = [];
+
+    sheets.filter(sheet => sheet.data.length >= 2).forEach(sheet => {
+      const headers = sheet.data[0].map(h => String(h).trim());
+      const profile = findMatchingProfile(headers, mappingProfiles);
+      if (profile) {
+        setLastUpload({ data: sheet.data, fileName: sheet.source, profileName: profile.name });
+        parsed.push(parseWithMapping(sheet.data, profile.mapping, sheet.source));
+      } else {
+        queued.push({ data: sheet.data, fileName: sheet.source, mapping: guessColumnMapping(headers) });
       }
+    });
 
-      return {
-        id: String(rawId),
-        date: dateObj,
-        revenueType: String(rawType || 'Onbekend'),
-        originalCategory: String(rawType || ''),
-        description: String(rawDesc),
-        amount: isNaN(amount) ? 0 : amount
-      };
-    }).filter(r => r.date instanceof Date && !isNaN(r.date.getTime()) && r.amount !== 0);
-
-    const { processedRecords, unmatchedItems } = applyLookupRules(records, lookupRules);
-    setRawData(processedRecords);
-    setUnmatchedItems(unmatchedItems);
+    if (parsed.length > 0) importParsed(parsed);
+    if (queued.length > 0) setPendingImports(prev => [...prev, ...queued]);
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping, profile?: MappingProfile) => {
+    const pendingImport = pendingImports[0];
+    if (!pendingImport) return;
+    if (profile) setMappingProfiles(saveMappingProfile(profile));
+    setLastUpload({ data: pendingImport.data, fileName: pendingImport.fileName, profileName: profile?.name });
+    importParsed([parseWithMapping(pendingImport.data, mapping, pendingImport.fileName)]);
+    setPendingImports(prev => prev.slice(1));
+  };
+
+  // Reclassifies the dataset with the new rule set
+  const updateLookupRules = (newRules: LookupRule[]) => {
+    setLookupRules(newRules);
+    if (rawData.length > 0) {
+      const { processedRecords } = applyLookupRules(rawData, newRules);
+      setRawData(processedRecords);
+    }
   };
 
   const processLookupFile = (data: any[][]) => {
      if (!data || data.length < 2) return;
-     const newRules: LookupRule[] = data.slice(1).map(row => ({
-         mainCategory: String(row[0] || ''),
-         subCategory: String(row[1] || ''),
-         searchTerm: String(row[2] || '')
-     })).filter(r => r.mainCategory && r.searchTerm);
+     const newRules = parseLookupRules(data);
 
      if (newRules.length > 0) {
-         setLookupRules(newRules);
-         if (rawData.length > 0) {
-            const { processedRecords, unmatchedItems } = applyLookupRules(rawData, newRules);
-            setRawData(processedRecords);
-            setUnmatchedItems(unmatchedItems);
-         }
+         updateLookupRules(newRules);
          alert(language === Language.NL ? "Regels succesvol bijgewerkt" : "Rules updated successfully");
      }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>, isLookup: boolean = false) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const processBudgetFile = (data: any[][]) => {
+    const entries = parseBudgetData(data);
+    if (entries.length === 0) {
+      alert(language === Language.NL ? "Geen budgetregels gevonden." : "No budget rows found.");
+      return;
+    }
+    setBudget(entries);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, target: UploadTarget = 'data') => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    if (files.length === 0) return;
 
-    const reader = new FileReader();
-    const onLoad = (data: any[][]) => {
-        if (isLookup) processLookupFile(data);
-        else processFinancialData(data);
-    };
+    try {
+      if (target !== 'data') {
+        const sheets = await readUploadFile(files[0]);
+        // A filled-in template carries the budget on its own sheet
+        const sheet = (target === 'budget' && sheets.find(s => s.sheetName === 'Budget')) || sheets[0];
+        if (!sheet) return;
+        if (target === 'lookup') processLookupFile(sheet.data);
+        else processBudgetFile(sheet.data);
+        return;
+      }
 
-    if (file.name.endsWith('.csv')) {
-      reader.onload = (e) => {
-        const text = e.target?.result as string;
-        Papa.parse(text, { skipEmptyLines: true, complete: (results) => onLoad(results.data as any[][]) });
-      };
-      reader.readAsText(file);
-    } else {
-      reader.onload = (e) => {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const sheet = workbook.Sheets[workbook.SheetNames[0]];
-        const json = XLSX.utils.sheet_to_json(sheet, { header: 1 });
-        onLoad(json as any[][]);
-      };
-      reader.readAsBinaryString(file);
+      const sheets = (await Promise.all(files.map(readUploadFile))).flat();
+      const hasMultiSheetFile = files.some(file => sheets.filter(s => s.fileName === file.name).length > 1);
+      if (hasMultiSheetFile) setPendingSheets(sheets);
+      else processFinancialData(sheets);
+    } catch (error) {
+      console.error("File read error", error);
+      alert(language === Language.NL ? "Bestand kon niet worden gelezen." : "The file could not be read.");
     }
-    event.target.value = ''; 
   };
 
   const handleLoadDemo = () => {
-    const demo = generateDemoData();
-    const { processedRecords, unmatchedItems } = applyLookupRules(demo, lookupRules);
-    setRawData(processedRecords);
-    setUnmatchedItems(unmatchedItems);
+    setLastUpload(null);
+    setImportReports([]);
+    setHiddenSources([]);
+    importRecords(generateDemoData().map(r => ({ ...r, source: DEMO_SOURCE })));
+  };
+
+  const toggleSource = (source: string) => {
+    setHiddenSources(prev => prev.includes(source) ? prev.filter(s => s !== source) : [...prev, source]);
+  };
+
+  const removeSource = (source: string) => {
+    importRecords(rawData.filter(r => (r.source || '') !== source));
+    setImportReports(prev => prev.filter(r => r.fileName !== source));
+    setHiddenSources(prev => prev.filter(s => s !== source));
+    if (lastUpload?.fileName === source) setLastUpload(null);
+  };
+
+  const clearAllData = () => {
+    setRawData([]);
+    setImportReports([]);
+    setHiddenSources([]);
+    setLastUpload(null);
+    setAiInsights({});
+  };
+
+  const sources = useMemo(() => summarizeSources(rawData), [rawData]);
+
+  // Saves the open workspace before another one takes its place
+  const openWorkspace = async (name: string, state: Partial<WorkspaceState>) => {
+    try {
+      await saveWorkspace(workspaceName, workspaceState);
+    } catch (error) {
+      console.error("Could not save workspace:", error);
+    }
+    applyWorkspaceState(state);
+    setWorkspaceName(name);
+    setActiveWorkspaceName(name);
+    refreshWorkspaces();
+  };
+
+  const handleSwitchWorkspace = async (name: string) => {
+    if (name === workspaceName) return;
+    try {
+      const workspace = await loadWorkspace(name);
+      await openWorkspace(name, workspace ? workspace.state : {});
+    } catch (error) {
+      console.error("Could not load workspace:", error);
+      alert(LABELS.storageUnavailable[language]);
+    }
+  };
+
+  // A new workspace starts without data but keeps the appearance and the rule set
+  const handleCreateWorkspace = () => {
+    const name = prompt(LABELS.workspaceName[language])?.trim();
+    if (!name) return;
+    if (name === workspaceName || workspaces.some(w => w.name === name)) {
+      alert(LABELS.workspaceExists[language]);
+      return;
+    }
+    openWorkspace(name, { appName, themeId: currentThemeId, language, lookupRules, anomalySettings });
+  };
+
+  const handleDeleteWorkspace = async () => {
+    if (!confirm(`${LABELS.confirmDeleteWorkspace[language]} (${workspaceName})`)) return;
+    try {
+      await deleteWorkspace(workspaceName);
+      const next = (await listWorkspaces()).find(w => w.name !== workspaceName)?.name || DEFAULT_WORKSPACE;
+      const workspace = next === workspaceName ? null : await loadWorkspace(next);
+      // Switch without saving the deleted workspace back
+      applyWorkspaceState(workspace ? workspace.state : { appName, themeId: currentThemeId, language });
+      setWorkspaceName(next);
+      setActiveWorkspaceName(next);
+      refreshWorkspaces();
+    } catch (error) {
+      console.error("Could not delete workspace:", error);
+      alert(LABELS.storageUnavailable[language]);
+    }
+  };
+
+  const handleImportWorkspace = async (file: File) => {
+    try {
+      const workspace = parseWorkspaceFile(await file.text());
+      const taken = new Set([workspaceName, ...workspaces.map(w => w.name)]);
+      let name = workspace.name;
+      for (let i = 2; taken.has(name); i++) name = `${workspace.name} (${i})`;
+      await openWorkspace(name, workspace.state);
+    } catch (error) {
+      console.error("Workspace import error", error);
+      alert(LABELS.invalidWorkspaceFile[language]);
+    }
   };
 
   const toggleRow = (id: string) => {
@@ -306,38 +607,194 @@ const App: React.FC = () => {
     setComments([...comments, newComment]);
   };
 
-  const exportPDF = () => {
-    const doc = new jsPDF();
-    doc.text(`Revenue Report - ${format(new Date(), 'yyyy-MM-dd')}`, 14, 15);
-    const tableData = anomalies.map(a => [
-      format(a.date, 'yyyy-MM-dd'), a.revenueType, formatCurrency(a.amount), a.description, a.severity
-    ]);
-    autoTable(doc, {
-      head: [['Date', 'Revenue Type', 'Amount', 'Description', 'Severity']],
-      body: tableData,
-      startY: 20
-    });
-    doc.save('revenue_analysis.pdf');
+  // Management report of the current selection; the trend chart is captured as it is shown
+  const exportPDF = async () => {
+    setIsExporting(true);
+    try {
+      const chart = await renderChartImage(
+        trendChartRef.current,
+        chartView === ChartView.WATERFALL ? [] : chartSeries.map((name, i) => ({ name, color: chartColors[i % chartColors.length] }))
+      );
+      generateReport({
+        appName, language, theme: currentTheme, period: periodBounds,
+        revenueTypes: visibleRevenueTypes, history: selectedHistory, kpis, chart,
+        anomalies, anomalySettings, comments, aiInsights
+      });
+    } catch (error) {
+      console.error("Report generation failed:", error);
+      alert(LABELS.reportFailed[language]);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Same selection as the screen, as data to work with further in Excel
+  const exportExcel = () => {
+    try {
+      downloadAnalysisWorkbook({
+        appName, language, period: periodBounds, records: filteredData,
+        anomalies, comments, lookupRules, anomalySettings,
+        selectedRevenueTypes, selectedSubCategories, hiddenSources, forecastHorizon
+      });
+    } catch (error) {
+      console.error("Workbook export failed:", error);
+      alert(LABELS.workbookFailed[language]);
+    }
   };
 
   const uniqueRevenueTypes = useMemo(() => 
-    Array.from(new Set(rawData.map(r => r.revenueType))).sort(), 
-  [rawData]);
+    Array.from(new Set(activeData.map(r => r.revenueType))).sort(), 
+  [activeData]);
+
+  const subCategoriesByType = useMemo(() => groupSubCategories(activeData), [activeData]);
 
+  const subCategoryLabel = (subCategory?: string) => subCategory || LABELS.noSubCategory[language];
+
+  // Selecting a main category replaces any selection of its subcategories
   const toggleRevenueType = (type: string) => {
+    setSelectedSubCategories(prev => prev.filter(key => key.split('|')[0] !== type));
     setSelectedRevenueTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
   };
 
+  // Deselecting one subcategory of a selected main category keeps its siblings; selecting the
+  // last missing sibling collapses the selection into the main category again
+  const toggleSubCategory = (type: string, subCategory: string) => {
+    const key = subCategoryKey(type, subCategory);
+    const siblings = (subCategoriesByType[type] || []).map(sub => subCategoryKey(type, sub));
+    const current = selectedRevenueTypes.includes(type)
+      ? siblings
+      : selectedSubCategories.filter(k => siblings.includes(k));
+    const next = current.includes(key) ? current.filter(k => k !== key) : [...current, key];
+    const isWhole = next.length === siblings.length;
+
+    setSelectedRevenueTypes(prev => isWhole ? Array.from(new Set([...prev, type])) : prev.filter(t => t !== type));
+    setSelectedSubCategories(prev => [...prev.filter(k => !siblings.includes(k)), ...(isWhole ? [] : next)]);
+  };
+
+  const clearTypeSelection = () => {
+    setSelectedRevenueTypes([]);
+    setSelectedSubCategories([]);
+  };
+
+  const toggleFilterExpanded = (type: string) => {
+    const next = new Set(expandedFilterTypes);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    setExpandedFilterTypes(next);
+  };
+
+  const visibleRevenueTypes = useMemo(() =>
+    uniqueRevenueTypes.filter(type => selectedMainTypes.length === 0 || selectedMainTypes.includes(type)),
+  [uniqueRevenueTypes, selectedMainTypes]);
+
+  // A drill-down into a category that is filtered out or no longer in the data goes back to the top
+  useEffect(() => {
+    if (drillDown.revenueType && !visibleRevenueTypes.includes(drillDown.revenueType)) setDrillDown({});
+  }, [visibleRevenueTypes, drillDown.revenueType]);
+
+  // Records behind the chart series: main categories at the top level, the subcategories of the
+  // drilled-down category below it (keyed by their label so they chart like revenue types)
+  const seriesHistory = useMemo(() => {
+    if (!drillDown.revenueType) return selectedHistory;
+    return selectedHistory
+      .filter(r => r.revenueType === drillDown.revenueType)
+      .filter(r => drillDown.subCategory === undefined || (r.subCategory || '') === drillDown.subCategory)
+      .map(r => ({ ...r, revenueType: subCategoryLabel(r.subCategory) }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedHistory, drillDown, language]);
+
+  const chartSeries = useMemo(() =>
+    drillDown.revenueType ? Array.from(new Set(seriesHistory.map(r => r.revenueType))).sort() : visibleRevenueTypes,
+  [drillDown.revenueType, seriesHistory, visibleRevenueTypes]);
+
+  // Totals per series in the analysis window, the entry points for drilling down
+  const seriesBreakdown = useMemo(() => {
+    if (drillDown.subCategory !== undefined) return [];
+    const totals: Record<string, { key: string; label: string; total: number; count: number }> = {};
+    filteredData
+      .filter(r => !drillDown.revenueType || r.revenueType === drillDown.revenueType)
+      .forEach(r => {
+        const key = drillDown.revenueType ? (r.subCategory || '') : r.revenueType;
+        if (!totals[key]) totals[key] = { key, label: drillDown.revenueType ? subCategoryLabel(key) : key, total: 0, count: 0 };
+        totals[key].total += r.amount;
+        totals[key].count++;
+      });
+    return Object.values(totals).sort((a, b) => b.total - a.total);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filteredData, drillDown, language]);
+
+  // Transactions of the drilled-down subcategory in the analysis window
+  const drillTransactions = useMemo(() => {
+    if (drillDown.subCategory === undefined) return [];
+    return filteredData
+      .filter(r => r.revenueType === drillDown.revenueType && (r.subCategory || '') === drillDown.subCategory)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }, [filteredData, drillDown]);
+
+  const drillInto = (key: string) => {
+    setDrillDown(drillDown.revenueType ? { ...drillDown, subCategory: key } : { revenueType: key });
+  };
+
+  // Monthly totals per chart series over the full history of the selected types
+  const historyAggregates = useMemo(() =>
+    addPrevYearAmounts(aggregateMonthly(seriesHistory)),
+  [seriesHistory]);
+
+  const forecasts = useMemo(() => 
+    forecastHorizon > 0 ? forecastRevenue(historyAggregates, forecastHorizon) : [],
+  [historyAggregates, forecastHorizon]);
+
+  // Chart rows for the analysis window (the full history keeps the previous year available
+  // for the YoY comparison), followed by the forecast months
   const chartData = useMemo(() => {
-    const grouped: Record<string, { [key: string]: number }> = {};
-    filteredData.forEach(r => {
-      const monthKey = format(r.date, 'yyyy-MM');
-      if (!grouped[monthKey]) grouped[monthKey] = { time: new Date(monthKey).getTime() };
-      if (!grouped[monthKey][r.revenueType]) grouped[monthKey][r.revenueType] = 0;
-      grouped[monthKey][r.revenueType] += r.amount;
+    const startMonth = format(periodBounds.start, 'yyyy-MM');
+    const endMonth = format(periodBounds.end, 'yyyy-MM');
+
+    const grouped: Record<string, { [key: string]: number | number[] }> = {};
+    const row = (month: string) => {
+      if (!grouped[month]) grouped[month] = { time: new Date(month).getTime() };
+      return grouped[month];
+    };
+
+    historyAggregates
+      .filter(a => a.month >= startMonth && a.month <= endMonth)
+      .forEach(a => {
+        const r = row(a.month);
+        r[a.revenueType] = a.amount;
+        if (a.prevYearAmount !== undefined) r[`${a.revenueType}${PREV_YEAR_SUFFIX}`] = a.prevYearAmount;
+        const growth = calculateGrowth(a.amount, a.prevYearAmount);
+        if (growth !== undefined) r[`${a.revenueType}${YOY_SUFFIX}`] = growth;
+      });
+
+    forecasts.forEach(f => {
+      // Start the forecast line and band at the last actual value so it reads as a continuation
+      const last = grouped[f.lastActualMonth]?.[f.revenueType];
+      if (typeof last === 'number') {
+        grouped[f.lastActualMonth][`${f.revenueType}${FORECAST_SUFFIX}`] = last;
+        grouped[f.lastActualMonth][`${f.revenueType}${FORECAST_BAND_SUFFIX}`] = [last, last];
+      }
+      f.points.forEach(p => {
+        const r = row(p.month);
+        r[`${f.revenueType}${FORECAST_SUFFIX}`] = p.forecast;
+        r[`${f.revenueType}${FORECAST_BAND_SUFFIX}`] = [p.lower, p.upper];
+      });
     });
+
     return Object.keys(grouped).sort().map(key => ({ name: key, ...grouped[key] }));
-  }, [filteredData]);
+  }, [historyAggregates, forecasts, periodBounds]);
+
+  // Headline numbers follow the filtered data; the comparisons need the history of the same selection
+  const kpis = useMemo(() =>
+    calculateKpis(filteredData, selectedHistory, periodBounds),
+  [filteredData, selectedHistory, periodBounds]);
+
+  // Mix of the chart series in the analysis window, and the bridge from the comparison window to it
+  const composition = useMemo(() => sumByRevenueType(historyAggregates, periodBounds), [historyAggregates, periodBounds]);
+
+  const revenueBridge = useMemo(() => {
+    const previous = sumByRevenueType(historyAggregates, getComparisonBounds(periodBounds, comparisonBasis));
+    return buildRevenueBridge(previous, composition, COMPARISON_LABELS[comparisonBasis][language], LABELS.currentPeriod[language]);
+  }, [historyAggregates, periodBounds, comparisonBasis, composition, language]);
 
   // Dynamic Chart Colors from Theme
   const chartColors = useMemo(() => {
@@ -370,6 +827,17 @@ const App: React.FC = () => {
             </div>
 
             <div className="flex items-center gap-4">
+               <WorkspaceSwitcher
+                  current={workspaceName}
+                  workspaces={workspaces}
+                  language={language}
+                  onSwitch={handleSwitchWorkspace}
+                  onCreate={handleCreateWorkspace}
+                  onDelete={handleDeleteWorkspace}
+                  onExport={() => exportWorkspace(workspaceName, workspaceState)}
+                  onImport={handleImportWorkspace}
+               />
+
                <button 
                   onClick={() => setShowSettings(!showSettings)}
                   className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors border ${showSettings ? 'text-white border-transparent' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
@@ -438,6 +906,22 @@ const App: React.FC = () => {
                    </div>
                 </div>
 
+                <AnomalySettingsPanel
+                    settings={anomalySettings}
+                    onChange={setAnomalySettings}
+                    revenueTypes={uniqueRevenueTypes}
+                    language={language}
+                />
+
+                <InsightProviderSettingsPanel
+                    settings={providerSettings}
+                    onChange={(settings) => {
+                        setProviderSettings(settings);
+                        saveProviderSettings(settings);
+                    }}
+                    language={language}
+                />
+
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                     {/* Rules Table */}
                     <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 p-6">
@@ -448,7 +932,7 @@ const App: React.FC = () => {
                                     {LABELS.downloadLookup[language]}
                                 </button>
                                 <div className="relative">
-                                    <input type="file" accept=".csv, .xlsx" onChange={(e) => handleFileUpload(e, true)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                                    <input type="file" accept=".csv, .xlsx" onChange={(e) => handleFileUpload(e, 'lookup')} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
                                     <button 
                                         className="text-sm px-3 py-1.5 rounded text-white font-medium hover:opacity-90"
                                         style={{ backgroundColor: 'var(--color-primary)' }}
@@ -458,48 +942,22 @@ const App: React.FC = () => {
                                 </div>
                             </div>
                         </div>
-                        <div className="overflow-x-auto max-h-[400px]">
-                            <table className="w-full text-sm text-left text-slate-600">
-                                <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
-                                    <tr>
-                                        <th className="px-4 py-3">Hoofdsoort</th>
-                                        <th className="px-4 py-3">Subcategorie</th>
-                                        <th className="px-4 py-3">Zoekterm</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {lookupRules.map((rule, idx) => (
-                                        <tr key={idx} className="bg-white border-b hover:bg-slate-50">
-                                            <td className="px-4 py-2 font-medium" style={{ color: 'var(--color-text)' }}>{rule.mainCategory}</td>
-                                            <td className="px-4 py-2">{rule.subCategory}</td>
-                                            <td className="px-4 py-2 font-mono text-xs">{rule.searchTerm}</td>
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </table>
-                        </div>
+                        <LookupRuleEditor
+                            rules={lookupRules}
+                            records={rawData}
+                            language={language}
+                            onChange={updateLookupRules}
+                        />
                     </div>
 
                     {/* Unmatched Items */}
-                    <div className="lg:col-span-1 bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex flex-col h-[500px]">
-                         <div className="flex items-center justify-between mb-4">
-                            <h3 className="text-lg font-bold text-slate-800">{LABELS.unmatchedItems[language]}</h3>
-                            <span className="bg-red-100 text-red-700 text-xs font-bold px-2 py-1 rounded-full">{unmatchedItems.length}</span>
-                         </div>
-                         <div className="flex-1 overflow-y-auto border border-slate-100 rounded-lg p-2 bg-slate-50">
-                             {unmatchedItems.length === 0 ? (
-                                 <div className="text-center text-slate-400 mt-10 italic">
-                                     {language === Language.NL ? "Alles geclassificeerd!" : "All classified!"}
-                                 </div>
-                             ) : (
-                                 <ul className="space-y-2">
-                                     {unmatchedItems.map((item, idx) => (
-                                         <li key={idx} className="bg-white p-2 border border-slate-200 rounded text-sm text-slate-700 break-all">{item}</li>
-                                     ))}
-                                 </ul>
-                             )}
-                         </div>
-                    </div>
+                    <UnmatchedPanel
+                        records={rawData}
+                        rules={lookupRules}
+                        language={language}
+                        insightProvider={insightProvider}
+                        onCreateRules={(rules) => updateLookupRules([...lookupRules, ...rules])}
+                    />
                 </div>
             </div>
         ) : (
@@ -510,7 +968,7 @@ const App: React.FC = () => {
             <div className="w-full lg:w-3/4 space-y-6">
               <div className="flex flex-wrap gap-4">
                 <div className="relative group">
-                  <input type="file" accept=".csv, .xlsx, .xls" onChange={(e) => handleFileUpload(e, false)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                  <input type="file" multiple accept=".csv, .xlsx, .xls" onChange={(e) => handleFileUpload(e, 'data')} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
                   <button 
                     className="flex items-center gap-2 text-white px-4 py-2 rounded-lg transition-all shadow-sm hover:opacity-90"
                     style={{ backgroundColor: 'var(--color-primary)' }}
@@ -529,6 +987,16 @@ const App: React.FC = () => {
                   {LABELS.demo[language]}
                 </button>
 
+                <div className="relative group">
+                  <input type="file" accept=".csv, .xlsx, .xls" onChange={(e) => handleFileUpload(e, 'budget')} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                  <button 
+                    className="flex items-center gap-2 text-slate-600 hover:text-slate-900 px-4 py-2 border border-slate-300 rounded-lg transition-all"
+                  >
+                    <Target className="w-4 h-4" />
+                    {LABELS.uploadBudget[language]}
+                  </button>
+                </div>
+
                 <button 
                   onClick={() => downloadTemplate(lookupRules)}
                   className="flex items-center gap-2 text-slate-600 hover:text-slate-900 px-4 py-2 border border-slate-300 rounded-lg transition-all"
@@ -538,6 +1006,49 @@ const App: React.FC = () => {
                 </button>
               </div>
 
+              {lastUpload?.profileName && (
+                <p className="text-xs text-slate-500 -mt-3">
+                  {LABELS.profileApplied[language]} <strong>{lastUpload.profileName}</strong> ({lastUpload.fileName}){' · '}
+                  <button
+                    onClick={() => {
+                      const profile = mappingProfiles.find(p => p.name === lastUpload.profileName);
+                      setPendingImports(prev => [...prev, { data: lastUpload.data, fileName: lastUpload.fileName, mapping: profile ? profile.mapping : guessColumnMapping(lastUpload.data[0]) }]);
+                    }}
+                    className="font-medium hover:underline"
+                    style={{ color: 'var(--color-primary)' }}
+                  >
+                    {LABELS.adjustMapping[language]}
+                  </button>
+                </p>
+              )}
+
+              {sources.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 -mt-2">
+                  <span className="text-xs font-semibold text-slate-500 uppercase">{LABELS.sources[language]}</span>
+                  {sources.map(({ source, count }) => {
+                    const isHidden = hiddenSources.includes(source);
+                    return (
+                      <span
+                        key={source}
+                        className={`flex items-center gap-1.5 text-xs rounded-full border px-2.5 py-1 ${isHidden ? 'border-dashed border-slate-300 text-slate-400' : 'border-slate-200 bg-slate-50 text-slate-700'}`}
+                      >
+                        <span className={isHidden ? 'line-through' : ''}>{source}</span>
+                        <span className="text-slate-400">({count})</span>
+                        <button onClick={() => toggleSource(source)} className="hover:text-slate-900" title={LABELS.hideSource[language]}>
+                          {isHidden ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                        </button>
+                        <button onClick={() => removeSource(source)} className="hover:text-red-600" title={LABELS.removeSource[language]}>
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    );
+                  })}
+                  <button onClick={clearAllData} className="text-xs font-medium hover:underline" style={{ color: 'var(--color-primary)' }}>
+                    {LABELS.clearAll[language]}
+                  </button>
+                </div>
+              )}
+
               {/* Filters */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
@@ -557,6 +1068,10 @@ const App: React.FC = () => {
                     </select>
                     <Calendar className="absolute right-3 top-2.5 w-4 h-4 text-slate-400 pointer-events-none" />
                   </div>
+                  <label className="flex items-center gap-2 text-xs text-slate-600 mt-2 cursor-pointer">
+                    <input type="checkbox" checked={showYoY} onChange={(e) => setShowYoY(e.target.checked)} />
+                    {LABELS.compareYoY[language]}
+                  </label>
                 </div>
 
                 {dateRange === DateRangeOption.CUSTOM && (
@@ -579,31 +1094,66 @@ const App: React.FC = () => {
                     className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5 pr-8 text-left flex items-center justify-between focus:ring-opacity-50"
                     style={{ borderColor: 'var(--color-primary)' }}
                   >
-                    <span className="truncate">{selectedRevenueTypes.length === 0 ? LABELS.all[language] : `${selectedRevenueTypes.length} geselecteerd`}</span>
+                    <span className="truncate">
+                      {selectedRevenueTypes.length + selectedSubCategories.length === 0
+                        ? LABELS.all[language]
+                        : `${selectedRevenueTypes.length + selectedSubCategories.length} ${LABELS.selected[language]}`}
+                    </span>
                     <ChevronDown className="w-4 h-4 text-slate-400" />
                   </button>
                   
                   {isMultiSelectOpen && (
-                      <div className="absolute z-10 w-full mt-1 bg-white border border-slate-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                      <div className="absolute z-10 w-full mt-1 bg-white border border-slate-200 rounded-lg shadow-lg max-h-72 overflow-y-auto">
                            <div className="p-2 border-b border-slate-100 flex justify-between">
-                               <button onClick={() => setSelectedRevenueTypes([])} className="text-xs font-medium hover:underline" style={{ color: 'var(--color-primary)' }}>
+                               <button onClick={clearTypeSelection} className="text-xs font-medium hover:underline" style={{ color: 'var(--color-primary)' }}>
                                    {language === Language.NL ? "Wis selectie" : "Clear selection"}
                                </button>
                            </div>
                            {uniqueRevenueTypes.map((type) => {
+                               const subCategories = subCategoriesByType[type] || [];
                                const isSelected = selectedRevenueTypes.includes(type);
+                               const isPartial = !isSelected && selectedSubCategories.some(key => key.split('|')[0] === type);
+                               const isExpanded = expandedFilterTypes.has(type);
                                return (
-                                   <div key={type} className="flex items-center px-4 py-2 hover:bg-slate-50 cursor-pointer" onClick={() => toggleRevenueType(type)}>
-                                       <div 
-                                         className={`w-4 h-4 border rounded mr-3 flex items-center justify-center`}
-                                         style={{ 
-                                            backgroundColor: isSelected ? 'var(--color-primary)' : 'transparent',
-                                            borderColor: isSelected ? 'var(--color-primary)' : '#cbd5e1'
-                                         }}
-                                       >
-                                           {isSelected && <Check className="w-3 h-3 text-white" />}
+                                   <div key={type}>
+                                       <div className="flex items-center px-4 py-2 hover:bg-slate-50 cursor-pointer" onClick={() => toggleRevenueType(type)}>
+                                           <div 
+                                             className={`w-4 h-4 border rounded mr-3 flex items-center justify-center`}
+                                             style={{ 
+                                                backgroundColor: isSelected || isPartial ? 'var(--color-primary)' : 'transparent',
+                                                borderColor: isSelected || isPartial ? 'var(--color-primary)' : '#cbd5e1'
+                                             }}
+                                           >
+                                               {isSelected && <Check className="w-3 h-3 text-white" />}
+                                               {isPartial && <Minus className="w-3 h-3 text-white" />}
+                                           </div>
+                                           <span className="flex-1 text-sm text-slate-700">{type}</span>
+                                           {subCategories.length > 1 && (
+                                               <button
+                                                 onClick={(e) => { e.stopPropagation(); toggleFilterExpanded(type); }}
+                                                 className="p-0.5 text-slate-400 hover:text-slate-600"
+                                               >
+                                                   {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                               </button>
+                                           )}
                                        </div>
-                                       <span className="text-sm text-slate-700">{type}</span>
+                                       {isExpanded && subCategories.length > 1 && subCategories.map(sub => {
+                                           const isSubSelected = isSelected || selectedSubCategories.includes(subCategoryKey(type, sub));
+                                           return (
+                                               <div key={sub} className="flex items-center pl-11 pr-4 py-1.5 hover:bg-slate-50 cursor-pointer" onClick={() => toggleSubCategory(type, sub)}>
+                                                   <div
+                                                     className="w-3.5 h-3.5 border rounded mr-3 flex items-center justify-center"
+                                                     style={{
+                                                        backgroundColor: isSubSelected ? 'var(--color-primary)' : 'transparent',
+                                                        borderColor: isSubSelected ? 'var(--color-primary)' : '#cbd5e1'
+                                                     }}
+                                                   >
+                                                       {isSubSelected && <Check className="w-2.5 h-2.5 text-white" />}
+                                                   </div>
+                                                   <span className="text-xs text-slate-600">{subCategoryLabel(sub)}</span>
+                                               </div>
+                                           );
+                                       })}
                                    </div>
                                );
                            })}
@@ -613,20 +1163,40 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <div className="w-full lg:w-auto">
+            <div className="w-full lg:w-auto flex flex-col sm:flex-row gap-2">
+               <button
+                  onClick={exportExcel}
+                  disabled={filteredData.length === 0}
+                  className="w-full lg:w-auto flex justify-center items-center gap-2 px-6 py-3 rounded-lg border border-slate-300 bg-white transition-all disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-50"
+                  style={{ color: 'var(--color-text)' }}
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  {LABELS.exportExcel[language]}
+                </button>
                <button 
                   onClick={exportPDF}
-                  disabled={rawData.length === 0}
+                  disabled={rawData.length === 0 || isExporting}
                   className="w-full lg:w-auto flex justify-center items-center gap-2 text-white px-6 py-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90"
                   style={{ backgroundColor: 'var(--color-text)' }}
                 >
-                  <Download className="w-4 h-4" />
-                  {LABELS.export[language]}
+                  {isExporting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  {isExporting ? LABELS.generatingReport[language] : LABELS.export[language]}
                 </button>
             </div>
           </div>
         </div>
 
+        {importReports.map(report => (
+          <ImportReportPanel
+            key={report.fileName}
+            report={report}
+            language={language}
+            onClose={() => setImportReports(prev => prev.filter(r => r !== report))}
+          />
+        ))}
+
+        <KpiStrip summary={kpis} language={language} />
+
         {rawData.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 bg-white rounded-xl border border-dashed border-slate-300">
             <Upload className="w-12 h-12 text-slate-300 mb-4" />
@@ -636,55 +1206,293 @@ const App: React.FC = () => {
           <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
             <div className="xl:col-span-2 space-y-8">
               {/* AI Insight */}
-              {selectedRevenueTypes.length === 1 && (
-                <div className="bg-white border rounded-xl p-5 shadow-sm" style={{ borderColor: 'var(--color-primary)' }}>
-                  <div className="flex items-start gap-3">
-                    <div className="p-2 rounded-full mt-1 text-white" style={{ backgroundColor: 'var(--color-primary)' }}>
-                      <RefreshCw className={`w-5 h-5 ${isLoadingAI ? 'animate-spin' : ''}`} />
-                    </div>
-                    <div>
-                       <h3 className="text-sm font-bold uppercase tracking-wide mb-1" style={{ color: 'var(--color-primary)' }}>
-                        {LABELS.aiAnalysis[language]}
-                      </h3>
-                      <p className="text-lg leading-snug font-medium" style={{ color: 'var(--color-text)' }}>
-                        {aiInsights[selectedRevenueTypes[0]]?.insight || (isLoadingAI ? LABELS.loading[language] : '')}
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              )}
+              <AIInsightPanel
+                revenueTypes={insightTypes}
+                insights={aiInsights}
+                statuses={insightStatus}
+                isLoading={isLoadingAI}
+                onRefresh={(types) => runAIAnalysis(types, true)}
+                language={language}
+              />
 
               {/* Chart */}
               <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-                <h2 className="text-lg font-bold mb-6" style={{ color: 'var(--color-text)' }}>{LABELS.trendAnalysis[language]}</h2>
-                <div className="h-[400px] w-full">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                      <XAxis dataKey="name" stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => format(new Date(val), 'MMM yy')} />
-                      <YAxis stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => `${val/1000}k`} />
-                      <Tooltip 
-                        contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                        formatter={(value: number) => [`EUR ${value.toLocaleString()}`, 'Amount']}
-                      />
-                      <Legend />
-                      {uniqueRevenueTypes
-                        .filter(type => selectedRevenueTypes.length === 0 || selectedRevenueTypes.includes(type))
-                        .map((type, index) => (
-                          <Line 
-                            key={type}
-                            type="monotone" 
-                            dataKey={type} 
-                            stroke={chartColors[index % chartColors.length]} 
-                            strokeWidth={2}
-                            dot={{ r: 4 }}
-                            activeDot={{ r: 6 }}
-                          />
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                  <div>
+                    <h2 className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>{LABELS.trendAnalysis[language]}</h2>
+                    <nav className="flex flex-wrap items-center gap-1 text-xs mt-1">
+                      <button
+                        onClick={() => setDrillDown({})}
+                        className={drillDown.revenueType ? 'hover:underline' : 'font-semibold text-slate-700'}
+                        style={drillDown.revenueType ? { color: 'var(--color-primary)' } : {}}
+                      >
+                        {LABELS.allCategories[language]}
+                      </button>
+                      {drillDown.revenueType && (
+                        <>
+                          <ChevronRight className="w-3 h-3 text-slate-400" />
+                          <button
+                            onClick={() => setDrillDown({ revenueType: drillDown.revenueType })}
+                            className={drillDown.subCategory !== undefined ? 'hover:underline' : 'font-semibold text-slate-700'}
+                            style={drillDown.subCategory !== undefined ? { color: 'var(--color-primary)' } : {}}
+                          >
+                            {drillDown.revenueType}
+                          </button>
+                        </>
+                      )}
+                      {drillDown.subCategory !== undefined && (
+                        <>
+                          <ChevronRight className="w-3 h-3 text-slate-400" />
+                          <span className="font-semibold text-slate-700">{subCategoryLabel(drillDown.subCategory)}</span>
+                        </>
+                      )}
+                    </nav>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <TrendingUp className="w-4 h-4 text-slate-400" />
+                    <label className="text-xs font-semibold text-slate-500 uppercase">{LABELS.forecast[language]}</label>
+                    <select
+                      value={forecastHorizon}
+                      onChange={(e) => setForecastHorizon(Number(e.target.value))}
+                      className="bg-slate-50 border border-slate-300 text-slate-900 text-xs rounded-lg p-1.5"
+                    >
+                      <option value={0}>{LABELS.none[language]}</option>
+                      {FORECAST_HORIZONS.map(h => (
+                        <option key={h} value={h}>{h} {language === Language.NL ? 'Maanden' : 'Months'}</option>
                       ))}
-                    </LineChart>
-                  </ResponsiveContainer>
+                    </select>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <div className="inline-flex rounded-lg border border-slate-200 overflow-hidden text-xs">
+                    {Object.values(ChartView).map(view => (
+                      <button
+                        key={view}
+                        onClick={() => setChartView(view)}
+                        className={`px-3 py-1.5 border-r border-slate-200 last:border-r-0 ${chartView === view ? 'text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                        style={chartView === view ? { backgroundColor: 'var(--color-primary)' } : {}}
+                      >
+                        {CHART_VIEW_LABELS[view][language]}
+                      </button>
+                    ))}
+                  </div>
+                  {chartView === ChartView.WATERFALL && (
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs font-semibold text-slate-500 uppercase">{LABELS.compareWith[language]}</label>
+                      <select
+                        value={comparisonBasis}
+                        onChange={(e) => setComparisonBasis(e.target.value as ComparisonBasis)}
+                        className="bg-slate-50 border border-slate-300 text-slate-900 text-xs rounded-lg p-1.5"
+                      >
+                        {Object.values(ComparisonBasis).map(basis => (
+                          <option key={basis} value={basis}>{COMPARISON_LABELS[basis][language]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+                <div className="h-[400px] w-full" ref={trendChartRef}>
+                  {chartView !== ChartView.LINES ? (
+                    <RevenueMixChart
+                      view={chartView}
+                      chartData={chartData}
+                      series={chartSeries}
+                      composition={composition}
+                      bridge={revenueBridge}
+                      colors={chartColors}
+                      language={language}
+                    />
+                  ) : (
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                        <XAxis dataKey="name" stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => format(new Date(val), 'MMM yy')} />
+                        <YAxis stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => `${val/1000}k`} />
+                        <Tooltip 
+                          contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                          formatter={(value: number | number[], name: string, item: any) => {
+                            if (Array.isArray(value)) {
+                              return [`EUR ${Math.round(value[0]).toLocaleString()} - ${Math.round(value[1]).toLocaleString()}`, name];
+                            }
+                            const yoy = showYoY ? item?.payload?.[`${item.dataKey}${YOY_SUFFIX}`] : undefined;
+                            const yoyText = yoy !== undefined ? ` (${yoy > 0 ? '+' : ''}${yoy.toFixed(1)}% YoY)` : '';
+                            return [`EUR ${Math.round(value).toLocaleString()}${yoyText}`, name];
+                          }}
+                        />
+                        <Legend />
+                        {forecasts.map(f => {
+                          const color = chartColors[chartSeries.indexOf(f.revenueType) % chartColors.length];
+                          return (
+                            <Area
+                              key={`${f.revenueType}${FORECAST_BAND_SUFFIX}`}
+                              type="monotone"
+                              dataKey={`${f.revenueType}${FORECAST_BAND_SUFFIX}`}
+                              name={`${f.revenueType} (${LABELS.predictionInterval[language]})`}
+                              stroke="none"
+                              fill={color}
+                              fillOpacity={0.15}
+                              legendType="none"
+                            />
+                          );
+                        })}
+                        {chartSeries.map((type, index) => (
+                            <Line 
+                              key={type}
+                              type="monotone" 
+                              dataKey={type} 
+                              stroke={chartColors[index % chartColors.length]} 
+                              strokeWidth={2}
+                              dot={{ r: 4 }}
+                              activeDot={{ r: 6 }}
+                            />
+                        ))}
+                        {showYoY && chartSeries.map((type, index) => (
+                            <Line 
+                              key={`${type}${PREV_YEAR_SUFFIX}`}
+                              type="monotone" 
+                              dataKey={`${type}${PREV_YEAR_SUFFIX}`} 
+                              name={`${type} (${LABELS.previousYear[language]})`}
+                              stroke={chartColors[index % chartColors.length]} 
+                              strokeWidth={1.5}
+                              strokeDasharray="5 5"
+                              strokeOpacity={0.7}
+                              dot={false}
+                            />
+                        ))}
+                        {forecasts.map(f => (
+                            <Line 
+                              key={`${f.revenueType}${FORECAST_SUFFIX}`}
+                              type="monotone" 
+                              dataKey={`${f.revenueType}${FORECAST_SUFFIX}`} 
+                              name={`${f.revenueType} (${LABELS.forecast[language].toLowerCase()})`}
+                              stroke={chartColors[chartSeries.indexOf(f.revenueType) % chartColors.length]} 
+                              strokeWidth={2}
+                              strokeDasharray="2 4"
+                              dot={false}
+                            />
+                        ))}
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  )}
                 </div>
+
+                {seriesBreakdown.length > 0 && (
+                  <div className="mt-4">
+                    <p className="text-xs font-semibold text-slate-500 uppercase mb-2">
+                      {drillDown.revenueType ? LABELS.drillToTransactions[language] : LABELS.drillToSubCategories[language]}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {seriesBreakdown.map(item => (
+                        <button
+                          key={item.key}
+                          onClick={() => drillInto(item.key)}
+                          className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 rounded-lg text-xs hover:bg-slate-50"
+                        >
+                          <span
+                            className="w-2.5 h-2.5 rounded-full"
+                            style={{ backgroundColor: chartColors[Math.max(chartSeries.indexOf(item.label), 0) % chartColors.length] }}
+                          />
+                          <span className="font-medium text-slate-700">{item.label}</span>
+                          <span className="text-slate-500">{formatCurrency(item.total)}</span>
+                          <ChevronRight className="w-3 h-3 text-slate-400" />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {drillDown.subCategory !== undefined && (
+                  <div className="mt-6 overflow-x-auto max-h-[420px] overflow-y-auto">
+                    <table className="w-full text-sm text-left text-slate-600">
+                      <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                        <tr>
+                          <th className="px-4 py-2">{FIELD_LABELS.date[language]}</th>
+                          <th className="px-4 py-2">{FIELD_LABELS.description[language]}</th>
+                          <th className="px-4 py-2">{FIELD_LABELS.customer[language]}</th>
+                          <th className="px-4 py-2 text-right">{FIELD_LABELS.amount[language]}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {drillTransactions.map((r, idx) => (
+                          <tr key={`${r.id}-${idx}`} className="border-b" title={r.matchedRule}>
+                            <td className="px-4 py-2 whitespace-nowrap">{formatDate(r.date, language)}</td>
+                            <td className="px-4 py-2">{r.description}</td>
+                            <td className="px-4 py-2 text-xs">{r.customer || '-'}</td>
+                            <td className="px-4 py-2 text-right font-semibold">{formatCurrency(r.amount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="font-bold" style={{ color: 'var(--color-text)' }}>
+                          <td className="px-4 py-2" colSpan={3}>{drillTransactions.length} {LABELS.records[language]}</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(drillTransactions.reduce((sum, r) => sum + r.amount, 0))}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                )}
+
+                {forecasts.length > 0 && (
+                  <div className="mt-6 overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-600">
+                      <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                        <tr>
+                          <th className="px-4 py-2">{LABELS.costType[language]}</th>
+                          <th className="px-4 py-2">{LABELS.detectionMethod[language]}</th>
+                          <th className="px-4 py-2 text-right">{LABELS.forecastTotal[language]} ({forecastHorizon} {language === Language.NL ? 'mnd' : 'mo'})</th>
+                          <th className="px-4 py-2 text-right">{LABELS.predictionInterval[language]}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {forecasts.map(f => (
+                          <tr key={f.revenueType} className="border-b">
+                            <td className="px-4 py-2 font-medium" style={{ color: 'var(--color-text)' }}>{f.revenueType}</td>
+                            <td className="px-4 py-2 text-xs">{FORECAST_METHOD_LABELS[f.method][language]}</td>
+                            <td className="px-4 py-2 text-right font-semibold">{formatCurrency(f.total.forecast)}</td>
+                            <td className="px-4 py-2 text-right text-xs">{formatCurrency(f.total.lower)} - {formatCurrency(f.total.upper)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </div>
+
+              {/* Customers */}
+              <CustomerAnalysisPanel
+                records={filteredData}
+                history={selectedHistory}
+                periodEnd={periodBounds.end}
+                language={language}
+              />
+
+              {/* Recurring revenue */}
+              <MrrMovementPanel
+                history={selectedHistory}
+                period={periodBounds}
+                language={language}
+              />
+
+              {/* Budget vs. Actual */}
+              {budget.length > 0 && (
+                <BudgetVariancePanel
+                  records={budgetActuals}
+                  budget={budget}
+                  period={periodBounds}
+                  thresholdPct={budgetThreshold}
+                  onThresholdChange={setBudgetThreshold}
+                  onClear={() => setBudget([])}
+                  language={language}
+                />
+              )}
+
+              <RevenueChatPanel
+                records={activeData}
+                comments={comments}
+                anomalySettings={anomalySettings}
+                insightProvider={insightProvider}
+                language={language}
+              />
             </div>
 
             {/* Anomalies */}
@@ -699,6 +1507,17 @@ const App: React.FC = () => {
                     {anomalies.length}
                   </span>
                 </div>
+
+                <div className="px-6 py-2 border-b border-slate-100 flex items-center justify-between gap-3 text-xs text-slate-500">
+                  <span>
+                    {METHOD_LABELS[anomalySettings.method][language]}
+                    {anomalySettings.method === AnomalyMethod.ZSCORE && ` · ${BASELINE_LABELS[anomalySettings.seasonalBaseline][language]}`}
+                    {anomalySettings.bySubCategory && ` · ${LABELS.perSubCategory[language]}`}
+                  </span>
+                  <button onClick={() => setShowSettings(true)} className="hover:underline" style={{ color: 'var(--color-primary)' }}>
+                    <Settings className="w-3.5 h-3.5" />
+                  </button>
+                </div>
                 
                 <div className="overflow-y-auto flex-1 p-2">
                   {anomalies.length === 0 ? (
@@ -708,7 +1527,7 @@ const App: React.FC = () => {
                       {anomalies.map((anomaly) => {
                         const isExpanded = expandedRows.has(anomaly.id);
                         const rowComments = comments.filter(c => c.recordId === anomaly.id);
-                        const fullRecord = rawData.find(r => r.id === anomaly.id);
+                        const underlyingRecords = isExpanded ? getAnomalyRecords(anomaly, activeData) : [];
                         
                         let severityColor = 'var(--color-low-risk)';
                         if (anomaly.severity === 'MEDIUM') severityColor = 'var(--color-medium-risk)';
@@ -722,13 +1541,17 @@ const App: React.FC = () => {
                                   <span className="w-2 h-2 rounded-full" style={{ backgroundColor: severityColor }} />
                                   <span className="text-xs font-bold text-slate-500 uppercase">{anomaly.revenueType}</span>
                                 </div>
-                                <h3 className="font-semibold" style={{ color: 'var(--color-text)' }}>{formatDate(anomaly.date, language)}</h3>
-                                {fullRecord?.subCategory && <div className="text-xs font-medium" style={{ color: 'var(--color-primary)' }}>{fullRecord.subCategory}</div>}
+                                <h3 className="font-semibold" style={{ color: 'var(--color-text)' }}>{formatMonth(anomaly.date, language)}</h3>
+                                {anomaly.subCategory && <div className="text-xs font-medium" style={{ color: 'var(--color-primary)' }}>{anomaly.subCategory}</div>}
                                 <p className="text-slate-500 text-sm mt-1">{anomaly.description}</p>
+                                <p className="text-slate-400 text-xs mt-1">
+                                  {LABELS.expected[language]} {formatCurrency(anomaly.expectedAmount)}, {LABELS.actual[language]} {formatCurrency(anomaly.amount)}
+                                  {' · '}{BASELINE_LABELS[anomaly.baseline][language]}
+                                </p>
                               </div>
                               <div className="text-right">
                                 <div className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>{formatCurrency(anomaly.amount)}</div>
-                                <div className="text-xs font-medium text-slate-400">Z: {anomaly.zScore.toFixed(2)}</div>
+                                <div className="text-xs font-medium text-slate-400">{formatAnomalyScore(anomaly)}</div>
                               </div>
                             </div>
                             
@@ -737,6 +1560,27 @@ const App: React.FC = () => {
                                 <div className="mb-4 text-xs text-slate-600 p-2 rounded border border-slate-200 bg-white">
                                   <strong>{LABELS.aiInsightLabel[language]}</strong> {aiInsights[anomaly.revenueType]?.insight || LABELS.loading[language]}
                                 </div>
+                                <div className="mb-4">
+                                  <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">{LABELS.underlyingRecords[language]}</h4>
+                                  {underlyingRecords.length === 0 ? (
+                                    <p className="text-xs text-slate-400 italic">{LABELS.noUnderlyingRecords[language]}</p>
+                                  ) : (
+                                    <div className="bg-white rounded border border-slate-200 divide-y divide-slate-100 max-h-48 overflow-y-auto">
+                                      {underlyingRecords.map((r, idx) => (
+                                        <div key={`${r.id}-${idx}`} className="flex justify-between gap-2 px-2 py-1.5 text-xs">
+                                          <div className="min-w-0">
+                                            <div className="text-slate-700 truncate">{r.description || r.originalCategory || r.id}</div>
+                                            <div className="text-slate-400">{formatDate(r.date, language)} · {r.id}</div>
+                                          </div>
+                                          <div className="text-right whitespace-nowrap">
+                                            <div className="font-semibold text-slate-700">{formatCurrency(r.amount)}</div>
+                                            {anomaly.amount !== 0 && <div className="text-slate-400">{Math.round(r.amount / anomaly.amount * 100)}%</div>}
+                                          </div>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
                                 <div className="space-y-3 mb-4">
                                   {rowComments.map(c => (
                                     <div key={c.id} className="bg-white p-2 rounded border border-slate-200 text-sm shadow-sm">
@@ -778,6 +1622,32 @@ const App: React.FC = () => {
         </>
         )}
       </main>
+
+      {pendingSheets && (
+        <SheetPicker
+          sheets={pendingSheets}
+          language={language}
+          onConfirm={(selected) => {
+            setPendingSheets(null);
+            processFinancialData(selected);
+          }}
+          onCancel={() => setPendingSheets(null)}
+        />
+      )}
+
+      {pendingImports.length > 0 && (
+        <ColumnMappingWizard
+          key={pendingImports[0].fileName}
+          data={pendingImports[0].data}
+          fileName={pendingImports[0].fileName}
+          initialMapping={pendingImports[0].mapping}
+          profiles={mappingProfiles}
+          language={language}
+          onConfirm={handleMappingConfirm}
+          onDeleteProfile={(name) => setMappingProfiles(deleteMappingProfile(name))}
+          onCancel={() => setPendingImports(prev => prev.slice(1))}
+        />
+      )}
     </div>
   );
 };
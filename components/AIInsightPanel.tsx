@@ -0,0 +1,115 @@
+import React from 'react';
+import { Sparkles, RefreshCw, TrendingUp, TrendingDown, ArrowRight } from 'lucide-react';
+
+import { Language, AIInsight, InsightTrend, InsightStatus } from '../types';
+import { LABELS, INSIGHT_STATUS_LABELS } from '../constants';
+
+interface AIInsightPanelProps {
+  revenueTypes: string[];
+  insights: Record<string, AIInsight>;
+  statuses: Record<string, InsightStatus>;
+  isLoading: boolean;
+  onRefresh: (revenueTypes: string[]) => void; // Bypasses the cache
+  language: Language;
+}
+
+const TREND_STYLES: Record<InsightTrend, { icon: React.ElementType; color: string }> = {
+  up: { icon: TrendingUp, color: 'var(--color-low-risk)' },
+  down: { icon: TrendingDown, color: 'var(--color-high-risk)' },
+  stable: { icon: ArrowRight, color: 'var(--color-medium-risk)' }
+};
+
+const STATUS_COLORS: Record<InsightStatus, string> = {
+  queued: '#94a3b8',
+  running: 'var(--color-primary)',
+  done: 'var(--color-low-risk)',
+  cached: '#64748b',
+  failed: 'var(--color-high-risk)'
+};
+
+const InsightList: React.FC<{ title: string; items?: string[] }> = ({ title, items }) => {
+  if (!items || items.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-slate-500 uppercase mb-1">{title}</h4>
+      <ul className="list-disc pl-4 space-y-0.5 text-xs text-slate-600">
+        {items.map((item, i) => <li key={i}>{item}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+// One card per revenue type with the structured outcome of the AI analysis
+const AIInsightPanel: React.FC<AIInsightPanelProps> = ({ revenueTypes, insights, statuses, isLoading, onRefresh, language }) => {
+  if (revenueTypes.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <Sparkles className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+          {LABELS.aiAnalysis[language]}
+        </h2>
+        <button
+          onClick={() => onRefresh(revenueTypes)}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-700 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          {LABELS.refreshAnalysis[language]}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {revenueTypes.map(type => {
+          const insight = insights[type];
+          const status = statuses[type];
+          const isBusy = status === 'queued' || status === 'running';
+          const trend = insight?.trend ? TREND_STYLES[insight.trend] : undefined;
+          const TrendIcon = trend?.icon;
+          return (
+            <div key={type} className="rounded-lg border border-slate-200 p-4 bg-slate-50 min-w-0">
+              <div className="flex justify-between items-start gap-2 mb-2">
+                <h3 className="font-semibold truncate" style={{ color: 'var(--color-text)' }} title={type}>{type}</h3>
+                {trend && TrendIcon && (
+                  <span className="flex items-center gap-1 text-sm font-bold whitespace-nowrap" style={{ color: trend.color }}>
+                    <TrendIcon className="w-4 h-4" />
+                    {insight.growthPct !== undefined && `${insight.growthPct > 0 ? '+' : ''}${insight.growthPct.toFixed(1)}%`}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 mb-2">
+                {status && (
+                  <span
+                    className="text-[10px] font-bold uppercase text-white px-1.5 py-0.5 rounded"
+                    style={{ backgroundColor: STATUS_COLORS[status] }}
+                  >
+                    {INSIGHT_STATUS_LABELS[status][language]}
+                  </span>
+                )}
+                <button
+                  onClick={() => onRefresh([type])}
+                  disabled={isBusy}
+                  className="text-slate-400 hover:text-slate-700 disabled:opacity-50"
+                  title={LABELS.refreshAnalysis[language]}
+                >
+                  <RefreshCw className={`w-3.5 h-3.5 ${status === 'running' ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+              <p className="text-sm leading-snug mb-3" style={{ color: 'var(--color-text)' }}>
+                {insight?.insight || (isBusy ? LABELS.loading[language] : LABELS.noInsight[language])}
+              </p>
+              <div className="space-y-2">
+                <InsightList title={LABELS.keyDrivers[language]} items={insight?.drivers} />
+                <InsightList title={LABELS.risks[language]} items={insight?.risks} />
+                <InsightList title={LABELS.recommendedActions[language]} items={insight?.actions} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AIInsightPanel;
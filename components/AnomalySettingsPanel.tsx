@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+
+import { Language, AnomalyMethod, AnomalyBaseline, AnomalySettings, AnomalyThresholds } from '../types';
+import { LABELS, METHOD_LABELS, BASELINE_LABELS } from '../constants';
+import { DEFAULT_ANOMALY_SETTINGS } from '../utils';
+
+interface AnomalySettingsPanelProps {
+  settings: AnomalySettings;
+  onChange: (settings: AnomalySettings) => void;
+  revenueTypes: string[];
+  language: Language;
+}
+
+const METHODS = Object.values(AnomalyMethod);
+const SEASONAL_BASELINES = [AnomalyBaseline.STL, AnomalyBaseline.SAME_MONTH, AnomalyBaseline.FLAT];
+const SEVERITY_KEYS: (keyof AnomalyThresholds)[] = ['low', 'medium', 'high'];
+const SEVERITY_COLORS: Record<keyof AnomalyThresholds, string> = {
+  low: 'var(--color-low-risk)',
+  medium: 'var(--color-medium-risk)',
+  high: 'var(--color-high-risk)'
+};
+
+// Keeps low <= medium <= high by clamping the edited level between its neighbours
+const orderThresholds = (value: AnomalyThresholds, changed: keyof AnomalyThresholds): AnomalyThresholds => {
+  if (changed === 'low') return { ...value, low: Math.min(value.low, value.medium) };
+  if (changed === 'high') return { ...value, high: Math.max(value.high, value.medium) };
+  return { ...value, medium: Math.min(Math.max(value.medium, value.low), value.high) };
+};
+
+const ThresholdInputs: React.FC<{
+  value: AnomalyThresholds;
+  onChange: (value: AnomalyThresholds) => void;
+}> = ({ value, onChange }) => {
+  // The typed text, so a field can be cleared or half typed without an empty field becoming 0
+  const [drafts, setDrafts] = useState<Partial<Record<keyof AnomalyThresholds, string>>>({});
+
+  const edit = (key: keyof AnomalyThresholds, text: string) => {
+    setDrafts(prev => ({ ...prev, [key]: text }));
+    const parsed = Number(text);
+    if (text.trim() === '' || !Number.isFinite(parsed) || parsed < 0) return;
+    onChange(orderThresholds({ ...value, [key]: parsed }, key));
+  };
+
+  // Leaving the field shows the value that is actually in use
+  const reset = (key: keyof AnomalyThresholds) => setDrafts(prev => {
+    const next = { ...prev };
+    delete next[key];
+    return next;
+  });
+
+  return (
+    <>
+      {SEVERITY_KEYS.map(key => (
+        <td key={key} className="px-2 py-1.5">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={drafts[key] ?? value[key]}
+            onChange={(e) => edit(key, e.target.value)}
+            onBlur={() => reset(key)}
+            className="w-20 bg-slate-50 border border-slate-300 rounded p-1 text-xs"
+          />
+        </td>
+      ))}
+    </>
+  );
+};
+
+const AnomalySettingsPanel: React.FC<AnomalySettingsPanelProps> = ({ settings, onChange, revenueTypes, language }) => {
+  const update = (patch: Partial<AnomalySettings>) => onChange({ ...settings, ...patch });
+
+  const setOverrideMethod = (type: string, method: string) => {
+    const typeOverrides = { ...settings.typeOverrides };
+    if (!method) delete typeOverrides[type];
+    else {
+      const m = method as AnomalyMethod;
+      typeOverrides[type] = { method: m, thresholds: { ...settings.thresholds[m] } };
+    }
+    update({ typeOverrides });
+  };
+
+  const setOverrideThresholds = (type: string, thresholds: AnomalyThresholds) => {
+    update({ typeOverrides: { ...settings.typeOverrides, [type]: { ...settings.typeOverrides[type], thresholds } } });
+  };
+
+  const severityHeaders = SEVERITY_KEYS.map(key => (
+    <th key={key} className="px-2 py-2">
+      <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: SEVERITY_COLORS[key] }} />
+      {key.toUpperCase()}
+    </th>
+  ));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-slate-800">{LABELS.anomalySettings[language]}</h3>
+        <button
+          onClick={() => onChange(DEFAULT_ANOMALY_SETTINGS)}
+          className="flex items-center gap-1 text-sm px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded text-slate-700 font-medium"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          {LABELS.resetDefaults[language]}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">{LABELS.detectionMethod[language]}</label>
+          <select
+            value={settings.method}
+            onChange={(e) => update({ method: e.target.value as AnomalyMethod })}
+            className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5"
+          >
+            {METHODS.map(m => <option key={m} value={m}>{METHOD_LABELS[m][language]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">{LABELS.anomalyBaseline[language]} (Z-score)</label>
+          <select
+            value={settings.seasonalBaseline}
+            onChange={(e) => update({ seasonalBaseline: e.target.value as AnomalyBaseline })}
+            className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5"
+          >
+            {SEASONAL_BASELINES.map(b => <option key={b} value={b}>{BASELINE_LABELS[b][language]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">{LABELS.minAbsoluteAmount[language]}</label>
+          <input
+            type="number"
+            min={0}
+            value={settings.minAbsoluteAmount}
+            onChange={(e) => update({ minAbsoluteAmount: Math.max(0, Number(e.target.value)) })}
+            className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5"
+          />
+          <label className="flex items-center gap-2 text-sm text-slate-600 mt-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.bySubCategory}
+              onChange={(e) => update({ bySubCategory: e.target.checked })}
+            />
+            {LABELS.perSubCategory[language]}
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-700 mb-2">{LABELS.thresholds[language]}</h4>
+          <table className="w-full text-sm text-left text-slate-600">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+              <tr>
+                <th className="px-2 py-2">{LABELS.detectionMethod[language]}</th>
+                {severityHeaders}
+              </tr>
+            </thead>
+            <tbody>
+              {METHODS.map(m => (
+                <tr key={m} className="border-b">
+                  <td className={`px-2 py-1.5 ${m === settings.method ? 'font-semibold' : ''}`} style={m === settings.method ? { color: 'var(--color-primary)' } : {}}>
+                    {METHOD_LABELS[m][language]}
+                  </td>
+                  <ThresholdInputs
+                    value={settings.thresholds[m]}
+                    onChange={(thresholds) => update({ thresholds: { ...settings.thresholds, [m]: thresholds } })}
+                  />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-700 mb-2">{LABELS.typeOverrides[language]}</h4>
+          {revenueTypes.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">{LABELS.noData[language]}</p>
+          ) : (
+            <div className="overflow-x-auto max-h-[320px]">
+              <table className="w-full text-sm text-left text-slate-600">
+                <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-2">{LABELS.costType[language]}</th>
+                    <th className="px-2 py-2">{LABELS.detectionMethod[language]}</th>
+                    {severityHeaders}
+                  </tr>
+                </thead>
+                <tbody>
+                  {revenueTypes.map(type => {
+                    const override = settings.typeOverrides[type];
+                    return (
+                      <tr key={type} className="border-b">
+                        <td className="px-2 py-1.5 font-medium" style={{ color: 'var(--color-text)' }}>{type}</td>
+                        <td className="px-2 py-1.5">
+                          <select
+                            value={override?.method ?? ''}
+                            onChange={(e) => setOverrideMethod(type, e.target.value)}
+                            className="bg-slate-50 border border-slate-300 rounded p-1 text-xs"
+                          >
+                            <option value="">{LABELS.useDefault[language]}</option>
+                            {METHODS.map(m => <option key={m} value={m}>{METHOD_LABELS[m][language]}</option>)}
+                          </select>
+                        </td>
+                        {override?.thresholds ? (
+                          <ThresholdInputs value={override.thresholds} onChange={(t) => setOverrideThresholds(type, t)} />
+                        ) : (
+                          <td colSpan={3} className="px-2 py-1.5 text-xs text-slate-400">-</td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnomalySettingsPanel;
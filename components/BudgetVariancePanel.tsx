@@ -0,0 +1,205 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { Target, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+import { Language, FinancialRecord, BudgetEntry, BudgetVariance } from '../types';
+import { LABELS } from '../constants';
+import { formatCurrency } from '../utils';
+import { calculateBudgetVariance, summarizeVariance } from '../services/budgetService';
+
+interface BudgetVariancePanelProps {
+  records: FinancialRecord[]; // Full history of the selected main categories, as budgets are per main category
+  budget: BudgetEntry[];
+  period: { start: Date; end: Date };
+  thresholdPct: number;
+  onThresholdChange: (value: number) => void;
+  onClear: () => void;
+  language: Language;
+}
+
+const severityColor = (severity?: BudgetVariance['severity']) => {
+  if (severity === 'HIGH') return 'var(--color-high-risk)';
+  if (severity === 'MEDIUM') return 'var(--color-medium-risk)';
+  return 'var(--color-low-risk)';
+};
+
+const formatPct = (pct?: number) => pct === undefined ? '-' : `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+
+const BudgetVariancePanel: React.FC<BudgetVariancePanelProps> = ({
+  records, budget, period, thresholdPct, onThresholdChange, onClear, language
+}) => {
+  const revenueTypes = useMemo(() => new Set(records.map(r => r.revenueType)), [records]);
+
+  const variances = useMemo(() =>
+    calculateBudgetVariance(records, budget.filter(b => revenueTypes.has(b.revenueType)), thresholdPct),
+  [records, budget, revenueTypes, thresholdPct]);
+
+  const startMonth = format(period.start, 'yyyy-MM');
+  const endMonth = format(period.end, 'yyyy-MM');
+  const inPeriod = useMemo(() =>
+    variances.filter(v => v.month >= startMonth && v.month <= endMonth),
+  [variances, startMonth, endMonth]);
+
+  // Year-to-date: January of the year the period ends in, up to the last month with actuals
+  const ytd = useMemo(() => {
+    const lastActual = records.reduce((max, r) => {
+      const m = format(r.date, 'yyyy-MM');
+      return m > max ? m : max;
+    }, '');
+    const ytdEnd = lastActual && lastActual < endMonth ? lastActual : endMonth;
+    const ytdStart = `${endMonth.slice(0, 4)}-01`;
+    return summarizeVariance(variances.filter(v => v.month >= ytdStart && v.month <= ytdEnd));
+  }, [variances, records, endMonth]);
+
+  // All types collapsed into a single total
+  const ytdTotal = useMemo(() => summarizeVariance(ytd.map(v => ({ ...v, revenueType: '' })))[0], [ytd]);
+
+  const monthlyTotals = useMemo(() => {
+    const grouped: Record<string, { name: string; actual: number; budget: number }> = {};
+    inPeriod.forEach(v => {
+      if (!grouped[v.month]) grouped[v.month] = { name: v.month, actual: 0, budget: 0 };
+      grouped[v.month].actual += v.actual;
+      grouped[v.month].budget += v.budget;
+    });
+    return Object.keys(grouped).sort().map(k => grouped[k]);
+  }, [inPeriod]);
+
+  const flagged = inPeriod.filter(v => v.severity).sort((a, b) => b.month.localeCompare(a.month));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <Target className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+          {LABELS.budgetVariance[language]}
+        </h2>
+        <div className="flex items-center gap-3">
+          <label className="text-xs font-semibold text-slate-500 uppercase">{LABELS.varianceThreshold[language]}</label>
+          <input
+            type="number"
+            min={0}
+            value={thresholdPct}
+            onChange={(e) => onThresholdChange(Math.max(0, Number(e.target.value)))}
+            className="w-20 bg-slate-50 border border-slate-300 text-slate-900 text-xs rounded-lg p-1.5"
+          />
+          <button onClick={onClear} className="p-1.5 rounded hover:bg-slate-100 text-slate-400" title={LABELS.clearBudget[language]}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* YTD summary */}
+      {ytdTotal && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          {[
+            { label: `${LABELS.actualLabel[language]} YTD`, value: formatCurrency(ytdTotal.actual) },
+            { label: `Budget YTD`, value: formatCurrency(ytdTotal.budget) },
+            { label: `${LABELS.variance[language]} YTD`, value: `${formatCurrency(ytdTotal.variance)} (${formatPct(ytdTotal.variancePct)})` }
+          ].map(card => (
+            <div key={card.label} className="rounded-lg border border-slate-200 p-4 bg-slate-50">
+              <div className="text-xs font-semibold text-slate-500 uppercase mb-1">{card.label}</div>
+              <div className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>{card.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {monthlyTotals.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{LABELS.noBudgetInPeriod[language]}</p>
+      ) : (
+        <div className="h-[260px] w-full mb-6">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={monthlyTotals} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="name" stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => format(new Date(val), 'MMM yy')} />
+              <YAxis stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => `${val/1000}k`} />
+              <Tooltip formatter={(value: number) => `EUR ${Math.round(value).toLocaleString()}`} />
+              <Legend />
+              <Bar dataKey="actual" name={LABELS.actualLabel[language]} fill="var(--color-primary)" />
+              <Bar dataKey="budget" name="Budget" fill="var(--color-low-risk)" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Per type, per month */}
+        <div className="overflow-x-auto max-h-[360px]">
+          <table className="w-full text-sm text-left text-slate-600">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-2 py-2">{LABELS.month[language]}</th>
+                <th className="px-2 py-2">{LABELS.costType[language]}</th>
+                <th className="px-2 py-2 text-right">{LABELS.actualLabel[language]}</th>
+                <th className="px-2 py-2 text-right">Budget</th>
+                <th className="px-2 py-2 text-right">{LABELS.variance[language]}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...inPeriod].sort((a, b) => b.month.localeCompare(a.month) || a.revenueType.localeCompare(b.revenueType)).map(v => (
+                <tr key={`${v.revenueType}|${v.month}`} className="border-b">
+                  <td className="px-2 py-1.5 whitespace-nowrap">{v.month}</td>
+                  <td className="px-2 py-1.5">{v.revenueType}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrency(v.actual)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrency(v.budget)}</td>
+                  <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                    {v.severity && <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: severityColor(v.severity) }} />}
+                    {formatCurrency(v.variance)} <span className="text-xs text-slate-400">{formatPct(v.variancePct)}</span>
+                  </td>
+                </tr>
+              ))}
+              {ytd.map(v => (
+                <tr key={`ytd-${v.revenueType}`} className="border-b bg-slate-50 font-semibold">
+                  <td className="px-2 py-1.5">YTD</td>
+                  <td className="px-2 py-1.5">{v.revenueType}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrency(v.actual)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrency(v.budget)}</td>
+                  <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                    {formatCurrency(v.variance)} <span className="text-xs text-slate-400">{formatPct(v.variancePct)}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Flagged variances, same layout as the anomaly list */}
+        <div>
+          <h3 className="text-sm font-semibold text-slate-700 mb-2 flex items-center justify-between">
+            {LABELS.flaggedVariances[language]}
+            <span className="text-white text-xs font-bold px-2 py-1 rounded-full" style={{ backgroundColor: 'var(--color-high-risk)' }}>
+              {flagged.length}
+            </span>
+          </h3>
+          {flagged.length === 0 ? (
+            <div className="p-8 text-center text-slate-400 text-sm">{LABELS.noFlaggedVariances[language]}</div>
+          ) : (
+            <div className="space-y-3 max-h-[320px] overflow-y-auto">
+              {flagged.map(v => (
+                <div key={`${v.revenueType}|${v.month}`} className="border border-slate-200 rounded-lg p-4 flex justify-between items-start">
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: severityColor(v.severity) }} />
+                      <span className="text-xs font-bold text-slate-500 uppercase">{v.revenueType}</span>
+                    </div>
+                    <h4 className="font-semibold" style={{ color: 'var(--color-text)' }}>{v.month}</h4>
+                    <p className="text-slate-400 text-xs mt-1">Budget {formatCurrency(v.budget)}, {LABELS.actual[language]} {formatCurrency(v.actual)}</p>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>{formatPct(v.variancePct)}</div>
+                    <div className="text-xs font-medium text-slate-400">{formatCurrency(v.variance)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetVariancePanel;
@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Sparkles, Check, X } from 'lucide-react';
+
+import { Language, CategorySuggestion, LookupRule, RuleMatchType } from '../types';
+import { LABELS, FIELD_LABELS } from '../constants';
+import { formatCurrency } from '../utils';
+
+interface CategorySuggestionReviewProps {
+  suggestions: CategorySuggestion[];
+  weights: Record<string, { count: number; total: number }>; // Per description
+  rules: LookupRule[];
+  language: Language;
+  onApply: (rules: LookupRule[]) => void;
+  onCancel: () => void;
+}
+
+type Decision = 'accepted' | 'rejected' | undefined;
+
+const confidenceColor = (confidence: number) => {
+  if (confidence >= 0.75) return 'var(--color-low-risk)';
+  if (confidence >= 0.4) return 'var(--color-medium-risk)';
+  return 'var(--color-high-risk)';
+};
+
+// Review of the proposed categories; every accepted row becomes an exact-match rule
+const CategorySuggestionReview: React.FC<CategorySuggestionReviewProps> = ({
+  suggestions, weights, rules, language, onApply, onCancel
+}) => {
+  const [rows, setRows] = useState(() => suggestions.map(s => ({ ...s, decision: undefined as Decision })));
+
+  const categoryOptions = useMemo(() =>
+    Array.from(new Set<string>(rules.map(r => `${r.mainCategory}|${r.subCategory}`))).sort().map(key => {
+      const [mainCategory, subCategory] = key.split('|');
+      return { key, mainCategory, subCategory };
+    }),
+  [rules]);
+
+  const update = (idx: number, patch: Partial<(typeof rows)[number]>) =>
+    setRows(rows.map((row, i) => i === idx ? { ...row, ...patch } : row));
+
+  const accepted = rows.filter(r => r.decision === 'accepted');
+
+  const apply = () => {
+    onApply(accepted.map(r => ({
+      mainCategory: r.mainCategory,
+      subCategory: r.subCategory,
+      searchTerm: r.description,
+      matchType: RuleMatchType.EXACT
+    })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+              <Sparkles className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+              {LABELS.categorySuggestions[language]}
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">
+              {rows.some(r => r.source === 'ai') ? LABELS.suggestedByAI[language] : LABELS.suggestedBySimilarity[language]}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {rows.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">{LABELS.noSuggestions[language]}</p>
+          ) : (
+            <table className="w-full text-sm text-left text-slate-600">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">{FIELD_LABELS.description[language]}</th>
+                  <th className="px-3 py-2 text-right">{FIELD_LABELS.amount[language]}</th>
+                  <th className="px-3 py-2">{LABELS.mainCategory[language]} / {LABELS.subCategory[language]}</th>
+                  <th className="px-3 py-2">{LABELS.confidence[language]}</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, idx) => {
+                  const weight = weights[row.description];
+                  return (
+                    <tr key={row.description} className={`border-b ${row.decision === 'rejected' ? 'opacity-40' : ''}`}>
+                      <td className="px-3 py-2 break-all">{row.description}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap text-xs">
+                        {weight && <>{formatCurrency(weight.total)} <span className="text-slate-400">({weight.count}x)</span></>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={`${row.mainCategory}|${row.subCategory}`}
+                          onChange={(e) => {
+                            const [mainCategory, subCategory] = e.target.value.split('|');
+                            update(idx, { mainCategory, subCategory, decision: 'accepted' });
+                          }}
+                          className="w-full bg-slate-50 border border-slate-300 rounded p-1 text-xs"
+                        >
+                          {categoryOptions.map(c => (
+                            <option key={c.key} value={c.key}>{c.mainCategory} / {c.subCategory}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <div className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                            <div className="h-full rounded-full" style={{ width: `${Math.round(row.confidence * 100)}%`, backgroundColor: confidenceColor(row.confidence) }} />
+                          </div>
+                          <span className="text-xs text-slate-500">{Math.round(row.confidence * 100)}%</span>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => update(idx, { decision: row.decision === 'accepted' ? undefined : 'accepted' })}
+                          className={`p-1 rounded border ${row.decision === 'accepted' ? 'text-white border-transparent' : 'text-slate-400 border-slate-200 hover:bg-slate-50'}`}
+                          style={row.decision === 'accepted' ? { backgroundColor: 'var(--color-primary)' } : {}}
+                          title={LABELS.accept[language]}
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => update(idx, { decision: row.decision === 'rejected' ? undefined : 'rejected' })}
+                          className={`ml-1 p-1 rounded border ${row.decision === 'rejected' ? 'bg-slate-600 text-white border-transparent' : 'text-slate-400 border-slate-200 hover:bg-slate-50'}`}
+                          title={LABELS.reject[language]}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex flex-wrap justify-between items-center gap-3">
+          <button
+            onClick={() => setRows(rows.map(r => ({ ...r, decision: r.decision || 'accepted' })))}
+            disabled={rows.length === 0}
+            className="text-sm font-medium hover:underline disabled:opacity-50"
+            style={{ color: 'var(--color-primary)' }}
+          >
+            {LABELS.acceptRemaining[language]}
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-4 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50">
+              {LABELS.cancel[language]}
+            </button>
+            <button
+              onClick={apply}
+              disabled={accepted.length === 0}
+              className="px-4 py-2 rounded-lg text-white hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: 'var(--color-primary)' }}
+            >
+              {LABELS.createRules[language]} ({accepted.length})
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategorySuggestionReview;
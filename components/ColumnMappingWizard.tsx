@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { Columns, Trash2, X } from 'lucide-react';
+
+import {
+  Language, ColumnMapping, MappingProfile, MappedField, DateFormat, DecimalSeparator, SourceSystem
+} from '../types';
+import { LABELS, FIELD_LABELS } from '../constants';
+import { applyColumnMapping, formatCurrency, formatDate } from '../utils';
+
+interface ColumnMappingWizardProps {
+  data: any[][]; // Header row + data rows of the upload
+  fileName: string;
+  initialMapping: ColumnMapping;
+  profiles: MappingProfile[];
+  language: Language;
+  onConfirm: (mapping: ColumnMapping, profile?: MappingProfile) => void;
+  onDeleteProfile: (name: string) => void;
+  onCancel: () => void;
+}
+
+const FIELDS: MappedField[] = ['date', 'amount', 'description', 'revenueType', 'id', 'customer', 'ledger'];
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  data, fileName, initialMapping, profiles, language, onConfirm, onDeleteProfile, onCancel
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [saveProfile, setSaveProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [sourceSystem, setSourceSystem] = useState<SourceSystem>(SourceSystem.EXACT);
+
+  const headers = useMemo(() => data[0].map(h => String(h).trim()), [data]);
+  const previewRows = data.slice(1, PREVIEW_ROWS + 1);
+  const parsedPreview = useMemo(() => applyColumnMapping(data.slice(0, PREVIEW_ROWS + 1), mapping), [data, mapping]);
+
+  const fieldForHeader = (header: string): MappedField | '' =>
+    FIELDS.find(f => mapping.fields[f] === header) || '';
+
+  const assign = (header: string, field: MappedField | '') => {
+    const fields = { ...mapping.fields };
+    // A column maps to one field and a field to one column
+    FIELDS.forEach(f => { if (fields[f] === header) delete fields[f]; });
+    if (field) fields[field] = header;
+    setMapping({ ...mapping, fields });
+  };
+
+  const canImport = !!mapping.fields.date && !!mapping.fields.amount && (!saveProfile || profileName.trim() !== '');
+
+  const handleConfirm = () => {
+    const profile = saveProfile ? { name: profileName.trim(), sourceSystem, mapping } : undefined;
+    onConfirm(mapping, profile);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+              <Columns className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+              {LABELS.columnMapping[language]}
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">{fileName}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Profile + parsing options */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{LABELS.mappingProfile[language]}</label>
+              <div className="flex gap-2">
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const profile = profiles.find(p => p.name === e.target.value);
+                    if (profile) setMapping(profile.mapping);
+                  }}
+                  className="flex-1 bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5"
+                >
+                  <option value="">{profiles.length === 0 ? LABELS.noProfiles[language] : LABELS.loadProfile[language]}</option>
+                  {profiles.map(p => <option key={p.name} value={p.name}>{p.name} ({p.sourceSystem})</option>)}
+                </select>
+              </div>
+              {profiles.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {profiles.map(p => (
+                    <span key={p.name} className="flex items-center gap-1 text-xs bg-slate-100 rounded px-2 py-0.5 text-slate-600">
+                      {p.name}
+                      <button onClick={() => onDeleteProfile(p.name)} className="hover:text-red-600">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{LABELS.dateFormat[language]}</label>
+              <select
+                value={mapping.dateFormat}
+                onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as DateFormat })}
+                className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5"
+              >
+                <option value={DateFormat.AUTO}>{LABELS.automatic[language]}</option>
+                <option value={DateFormat.DMY}>dd-mm-jjjj</option>
+                <option value={DateFormat.MDY}>mm-dd-jjjj</option>
+                <option value={DateFormat.YMD}>jjjj-mm-dd</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{LABELS.decimalSeparator[language]}</label>
+              <select
+                value={mapping.decimalSeparator}
+                onChange={(e) => setMapping({ ...mapping, decimalSeparator: e.target.value as DecimalSeparator })}
+                className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5"
+              >
+                <option value={DecimalSeparator.AUTO}>{LABELS.automatic[language]}</option>
+                <option value={DecimalSeparator.COMMA}>1.234,56</option>
+                <option value={DecimalSeparator.DOT}>1,234.56</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Header assignment with a preview of the first rows */}
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="w-full text-sm text-left text-slate-600">
+              <thead className="text-xs text-slate-700 bg-slate-50">
+                <tr>
+                  {headers.map((header, idx) => (
+                    <th key={idx} className="px-3 py-2 align-top min-w-[140px]">
+                      <div className="font-semibold mb-1 truncate">{header || `#${idx + 1}`}</div>
+                      <select
+                        value={fieldForHeader(header)}
+                        onChange={(e) => assign(header, e.target.value as MappedField | '')}
+                        className="w-full bg-white border border-slate-300 rounded p-1 text-xs font-normal"
+                        style={fieldForHeader(header) ? { borderColor: 'var(--color-primary)' } : {}}
+                      >
+                        <option value="">-</option>
+                        {FIELDS.map(f => <option key={f} value={f}>{FIELD_LABELS[f][language]}</option>)}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map((row, rIdx) => (
+                  <tr key={rIdx} className="border-t border-slate-100">
+                    {headers.map((_, cIdx) => (
+                      <td key={cIdx} className="px-3 py-1.5 text-xs whitespace-nowrap truncate max-w-[200px]">{String(row[cIdx] ?? '')}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* What the import will produce */}
+          <div>
+            <h3 className="text-xs font-semibold text-slate-500 uppercase mb-2">{LABELS.parsedPreview[language]}</h3>
+            {parsedPreview.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">{LABELS.mapDateAndAmount[language]}</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {parsedPreview.map((r, idx) => (
+                  <div key={idx} className="text-xs border border-slate-200 rounded p-2 bg-slate-50">
+                    <div className="flex justify-between font-semibold text-slate-700">
+                      <span>{formatDate(r.date, language)}</span>
+                      <span>{formatCurrency(r.amount)}</span>
+                    </div>
+                    <div className="text-slate-500 truncate">{r.description || '-'}</div>
+                    {r.customer && <div className="text-slate-400 truncate">{r.customer}</div>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Save as profile */}
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+              <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />
+              {LABELS.saveAsProfile[language]}
+            </label>
+            {saveProfile && (
+              <>
+                <input
+                  type="text"
+                  value={profileName}
+                  placeholder={LABELS.profileName[language]}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  className="bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2"
+                />
+                <select
+                  value={sourceSystem}
+                  onChange={(e) => setSourceSystem(e.target.value as SourceSystem)}
+                  className="bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2"
+                >
+                  {Object.values(SourceSystem).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-4 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50">
+            {LABELS.cancel[language]}
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canImport}
+            className="px-4 py-2 rounded-lg text-white hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: 'var(--color-primary)' }}
+          >
+            {LABELS.import[language]}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
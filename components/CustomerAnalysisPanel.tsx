@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { Users, UserMinus } from 'lucide-react';
+
+import { Language, FinancialRecord } from '../types';
+import { LABELS, FIELD_LABELS } from '../constants';
+import { formatCurrency, formatDate } from '../utils';
+import { analyzeCustomers } from '../services/customerService';
+
+interface CustomerAnalysisPanelProps {
+  records: FinancialRecord[]; // Filtered data of the analysis window
+  history: FinancialRecord[]; // Same selection over all dates, for the churn baseline
+  periodEnd: Date;
+  language: Language;
+}
+
+const TOP_N_OPTIONS = [5, 10, 20];
+
+// Concentration bands as used for the Herfindahl-Hirschman index
+const concentrationLevel = (hhi: number) => {
+  if (hhi >= 2500) return { label: LABELS.concentrationHigh, color: 'var(--color-high-risk)' };
+  if (hhi >= 1500) return { label: LABELS.concentrationModerate, color: 'var(--color-medium-risk)' };
+  return { label: LABELS.concentrationLow, color: 'var(--color-low-risk)' };
+};
+
+const CustomerAnalysisPanel: React.FC<CustomerAnalysisPanelProps> = ({ records, history, periodEnd, language }) => {
+  const [topN, setTopN] = useState(10);
+
+  const analysis = useMemo(() => analyzeCustomers(records, history, periodEnd), [records, history, periodEnd]);
+  const { customers, herfindahl, paretoCount, coveragePct, churnWarnings } = analysis;
+
+  const paretoData = useMemo(() =>
+    customers.map((c, i) => ({ name: c.customer, rank: i + 1, total: c.total, cumulativeShare: c.cumulativeShare })),
+  [customers]);
+
+  const concentration = concentrationLevel(herfindahl);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <Users className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+          {LABELS.customerAnalysis[language]}
+        </h2>
+        {customers.length > 0 && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-semibold text-slate-500 uppercase">Top</label>
+            <select
+              value={topN}
+              onChange={(e) => setTopN(Number(e.target.value))}
+              className="bg-slate-50 border border-slate-300 text-slate-900 text-xs rounded-lg p-1.5"
+            >
+              {TOP_N_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {customers.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{LABELS.noCustomerData[language]}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: LABELS.customers[language], value: String(customers.length), detail: coveragePct < 99.5 ? `${coveragePct.toFixed(0)}% ${LABELS.ofRevenue[language]}` : undefined },
+              { label: LABELS.paretoCustomers[language], value: String(paretoCount), detail: `${(paretoCount / customers.length * 100).toFixed(0)}% ${LABELS.ofCustomers[language]}` },
+              { label: LABELS.largestCustomer[language], value: `${customers[0].share.toFixed(1)}%`, detail: customers[0].customer },
+              { label: 'Herfindahl (HHI)', value: Math.round(herfindahl).toLocaleString(), detail: concentration.label[language], color: concentration.color }
+            ].map(card => (
+              <div key={card.label} className="rounded-lg border border-slate-200 p-4 bg-slate-50 min-w-0">
+                <div className="text-xs font-semibold text-slate-500 uppercase mb-1 truncate">{card.label}</div>
+                <div className="text-lg font-bold" style={{ color: card.color || 'var(--color-text)' }}>{card.value}</div>
+                {card.detail && <div className="text-xs text-slate-500 truncate" title={card.detail}>{card.detail}</div>}
+              </div>
+            ))}
+          </div>
+
+          {/* Pareto: revenue per customer, largest first, with the cumulative share */}
+          <div className="h-[260px] w-full mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={paretoData} margin={{ top: 5, right: 10, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="rank" stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} />
+                <YAxis yAxisId="amount" stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => `${val/1000}k`} />
+                <YAxis yAxisId="share" orientation="right" domain={[0, 100]} stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => `${val}%`} />
+                <Tooltip
+                  labelFormatter={(_label, payload) => payload?.[0]?.payload?.name}
+                  formatter={(value: number, name: string) => name === 'cumulativeShare'
+                    ? [`${value.toFixed(1)}%`, LABELS.cumulativeShare[language]]
+                    : [`EUR ${Math.round(value).toLocaleString()}`, LABELS.revenue[language]]}
+                />
+                <ReferenceLine yAxisId="share" y={80} stroke="var(--color-medium-risk)" strokeDasharray="4 4" />
+                <Bar yAxisId="amount" dataKey="total" fill="var(--color-primary)" />
+                <Line yAxisId="share" type="monotone" dataKey="cumulativeShare" stroke="var(--color-text)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="overflow-x-auto max-h-[360px]">
+              <table className="w-full text-sm text-left text-slate-600">
+                <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-2">#</th>
+                    <th className="px-2 py-2">{FIELD_LABELS.customer[language]}</th>
+                    <th className="px-2 py-2 text-right">{LABELS.revenue[language]}</th>
+                    <th className="px-2 py-2 text-right">%</th>
+                    <th className="px-2 py-2 text-right">{LABELS.cumulativeShare[language]}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {customers.slice(0, topN).map((c, i) => (
+                    <tr key={c.customer} className="border-b" title={`${c.transactions}x, ${formatDate(c.lastDate, language)}`}>
+                      <td className="px-2 py-1.5 text-slate-400">{i + 1}</td>
+                      <td className="px-2 py-1.5 font-medium" style={{ color: 'var(--color-text)' }}>{c.customer}</td>
+                      <td className="px-2 py-1.5 text-right">{formatCurrency(c.total)}</td>
+                      <td className="px-2 py-1.5 text-right">{c.share.toFixed(1)}%</td>
+                      <td className="px-2 py-1.5 text-right text-xs text-slate-500">{c.cumulativeShare.toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Churn warnings, same layout as the anomaly list */}
+            <div>
+              <h3 className="text-sm font-semibold text-slate-700 mb-2 flex items-center justify-between">
+                {LABELS.churnWarnings[language]}
+                <span className="text-white text-xs font-bold px-2 py-1 rounded-full" style={{ backgroundColor: 'var(--color-high-risk)' }}>
+                  {churnWarnings.length}
+                </span>
+              </h3>
+              {churnWarnings.length === 0 ? (
+                <div className="p-8 text-center text-slate-400 text-sm">{LABELS.noChurnWarnings[language]}</div>
+              ) : (
+                <div className="space-y-3 max-h-[320px] overflow-y-auto">
+                  {churnWarnings.map(w => (
+                    <div key={w.customer} className="border border-slate-200 rounded-lg p-4 flex justify-between items-start">
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <UserMinus className="w-3.5 h-3.5" style={{ color: w.kind === 'stopped' ? 'var(--color-high-risk)' : 'var(--color-medium-risk)' }} />
+                          <span className="text-xs font-bold text-slate-500 uppercase">
+                            {w.kind === 'stopped' ? LABELS.churnStopped[language] : LABELS.churnDeclined[language]}
+                          </span>
+                        </div>
+                        <h4 className="font-semibold" style={{ color: 'var(--color-text)' }}>{w.customer}</h4>
+                        <p className="text-slate-400 text-xs mt-1">
+                          {LABELS.usualPerMonth[language]} {formatCurrency(w.baselineMonthly)}, {LABELS.recentPerMonth[language]} {formatCurrency(w.recentMonthly)}
+                          {w.kind === 'stopped' && ` · ${LABELS.lastRevenue[language]} ${w.lastMonth}`}
+                        </p>
+                      </div>
+                      <div className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>{w.changePct.toFixed(0)}%</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomerAnalysisPanel;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, Download, X } from 'lucide-react';
+
+import { Language, ImportReport, ImportIssueType } from '../types';
+import { LABELS, ISSUE_LABELS } from '../constants';
+import { downloadImportReport, formatCurrency } from '../utils';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+  language: Language;
+  onClose: () => void;
+}
+
+const MAX_VISIBLE_ISSUES = 100;
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ report, language, onClose }) => {
+  const [typeFilter, setTypeFilter] = useState<ImportIssueType | null>(null);
+
+  const warnings = report.issues.filter(i => !i.rejected).length;
+  const visibleIssues = report.issues.filter(i => !typeFilter || i.type === typeFilter);
+  const counts = Object.values(ImportIssueType)
+    .map(type => ({ type, count: report.issues.filter(i => i.type === type).length }))
+    .filter(c => c.count > 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+            <ClipboardCheck className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+            {LABELS.importReport[language]}
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">{report.fileName}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => downloadImportReport(report, language)}
+            className="flex items-center gap-2 text-sm px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded text-slate-700 font-medium"
+          >
+            <Download className="w-4 h-4" />
+            {LABELS.downloadReport[language]}
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded hover:bg-slate-100 text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4">
+        {[
+          { label: LABELS.totalRows[language], value: report.totalRows, color: 'var(--color-text)' },
+          { label: LABELS.accepted[language], value: report.acceptedRows, color: 'var(--color-primary)' },
+          { label: LABELS.rejected[language], value: report.rejectedRows, color: 'var(--color-high-risk)' },
+          { label: LABELS.warnings[language], value: warnings, color: 'var(--color-medium-risk)' },
+          { label: LABELS.duplicatesRemoved[language], value: report.duplicatesRemoved, color: 'var(--color-low-risk)' },
+          { label: LABELS.acceptedTotal[language], value: formatCurrency(report.acceptedTotal), color: 'var(--color-text)' }
+        ].map(card => (
+          <div key={card.label} className="rounded-lg border border-slate-200 p-3 bg-slate-50">
+            <div className="text-xs font-semibold text-slate-500 uppercase mb-1">{card.label}</div>
+            <div className="text-lg font-bold" style={{ color: card.color }}>{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {counts.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {counts.map(({ type, count }) => (
+              <button
+                key={type}
+                onClick={() => setTypeFilter(typeFilter === type ? null : type)}
+                className={`text-xs px-2 py-1 rounded-full border ${typeFilter === type ? 'text-white border-transparent' : 'text-slate-600 border-slate-300 bg-white'}`}
+                style={typeFilter === type ? { backgroundColor: 'var(--color-primary)' } : {}}
+              >
+                {ISSUE_LABELS[type][language]}: {count}
+              </button>
+            ))}
+          </div>
+          <div className="overflow-x-auto max-h-[240px] border border-slate-100 rounded-lg">
+            <table className="w-full text-sm text-left text-slate-600">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">{LABELS.row[language]}</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">{LABELS.reason[language]}</th>
+                  <th className="px-3 py-2">{LABELS.value[language]}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleIssues.slice(0, MAX_VISIBLE_ISSUES).map((issue, idx) => (
+                  <tr key={idx} className="border-b">
+                    <td className="px-3 py-1.5">{issue.rowNumber}</td>
+                    <td className="px-3 py-1.5">
+                      <span
+                        className="inline-block w-2 h-2 rounded-full mr-2"
+                        style={{ backgroundColor: issue.rejected ? 'var(--color-high-risk)' : 'var(--color-medium-risk)' }}
+                      />
+                      {issue.rejected ? LABELS.rejected[language] : LABELS.warning[language]}
+                    </td>
+                    <td className="px-3 py-1.5">{ISSUE_LABELS[issue.type][language]}</td>
+                    <td className="px-3 py-1.5 font-mono text-xs">{issue.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {visibleIssues.length > MAX_VISIBLE_ISSUES && (
+            <p className="text-xs text-slate-400 mt-2">
+              {visibleIssues.length - MAX_VISIBLE_ISSUES} {LABELS.moreInDownload[language]}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportReportPanel;
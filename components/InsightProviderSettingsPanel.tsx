@@ -0,0 +1,99 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+
+import { Language, InsightProviderSettings, InsightProviderType } from '../types';
+import { LABELS, PROVIDER_LABELS } from '../constants';
+import { DEFAULT_MODELS, DEFAULT_PROVIDER_SETTINGS } from '../services/insightProviderService';
+
+interface InsightProviderSettingsPanelProps {
+  settings: InsightProviderSettings;
+  onChange: (settings: InsightProviderSettings) => void;
+  language: Language;
+}
+
+const PROVIDERS = Object.values(InsightProviderType);
+
+const PROVIDER_HINTS: Record<InsightProviderType, keyof typeof LABELS> = {
+  [InsightProviderType.GEMINI]: 'geminiProviderHint',
+  [InsightProviderType.OPENAI_COMPATIBLE]: 'selfHostedProviderHint',
+  [InsightProviderType.OFFLINE]: 'offlineProviderHint'
+};
+
+const InsightProviderSettingsPanel: React.FC<InsightProviderSettingsPanelProps> = ({ settings, onChange, language }) => {
+  const update = (patch: Partial<InsightProviderSettings>) => onChange({ ...settings, ...patch });
+
+  // Switching provider starts from its default model; a model name rarely carries over
+  const setProvider = (provider: InsightProviderType) => update({ provider, model: DEFAULT_MODELS[provider] });
+
+  const inputClass = 'w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-slate-800">{LABELS.aiProvider[language]}</h3>
+        <button
+          onClick={() => onChange(DEFAULT_PROVIDER_SETTINGS)}
+          className="flex items-center gap-1 text-sm px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded text-slate-700 font-medium"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          {LABELS.resetDefaults[language]}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">{LABELS.provider[language]}</label>
+          <select
+            value={settings.provider}
+            onChange={(e) => setProvider(e.target.value as InsightProviderType)}
+            className={inputClass}
+          >
+            {PROVIDERS.map(p => <option key={p} value={p}>{PROVIDER_LABELS[p][language]}</option>)}
+          </select>
+          <p className="text-xs text-slate-500 mt-2">{LABELS[PROVIDER_HINTS[settings.provider]][language]}</p>
+        </div>
+
+        {settings.provider !== InsightProviderType.OFFLINE && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{LABELS.model[language]}</label>
+            <input
+              type="text"
+              value={settings.model}
+              placeholder={DEFAULT_MODELS[settings.provider]}
+              onChange={(e) => update({ model: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {settings.provider === InsightProviderType.OPENAI_COMPATIBLE && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{LABELS.endpointUrl[language]}</label>
+            <input
+              type="url"
+              value={settings.baseUrl}
+              placeholder={DEFAULT_PROVIDER_SETTINGS.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {settings.provider !== InsightProviderType.OFFLINE && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{LABELS.apiKey[language]}</label>
+            <input
+              type="password"
+              value={settings.apiKeys[settings.provider]}
+              autoComplete="off"
+              onChange={(e) => update({ apiKeys: { ...settings.apiKeys, [settings.provider]: e.target.value } })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InsightProviderSettingsPanel;
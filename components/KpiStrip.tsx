@@ -0,0 +1,95 @@
+import React from 'react';
+import { LineChart, Line, ResponsiveContainer, YAxis } from 'recharts';
+
+import { Language, KpiSummary, KpiMetric } from '../types';
+import { LABELS } from '../constants';
+import { formatCurrency } from '../utils';
+
+interface KpiStripProps {
+  summary: KpiSummary | null;
+  language: Language;
+}
+
+const formatPct = (pct?: number, signed = true) =>
+  pct === undefined ? '-' : `${signed && pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+
+const growthColor = (pct?: number) => {
+  if (pct === undefined) return 'var(--color-text)';
+  return pct >= 0 ? 'var(--color-low-risk)' : 'var(--color-high-risk)';
+};
+
+const Sparkline: React.FC<{ metric: KpiMetric; color: string }> = ({ metric, color }) => (
+  <div className="h-8 mt-2">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={metric.sparkline.map((value, i) => ({ i, value }))}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        <Line type="monotone" dataKey="value" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const KpiCard: React.FC<{ label: string; value: string; detail?: string; metric: KpiMetric; color?: string }> = ({
+  label, value, detail, metric, color = 'var(--color-text)'
+}) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 min-w-0">
+    <p className="text-xs font-semibold text-slate-500 uppercase truncate" title={label}>{label}</p>
+    <p className="text-xl font-bold mt-1 truncate" style={{ color }}>{value}</p>
+    <p className="text-xs text-slate-500 truncate" title={detail}>{detail || ' '}</p>
+    <Sparkline metric={metric} color={color === 'var(--color-text)' ? 'var(--color-primary)' : color} />
+  </div>
+);
+
+// Headline numbers of the analysis window, each with its monthly course as a sparkline
+const KpiStrip: React.FC<KpiStripProps> = ({ summary, language }) => {
+  if (!summary) return null;
+  const { totalRevenue, growthPrevPeriod, growthPrevYear, recurringShare, mrr, averageMonthly, topContributor } = summary;
+  const months = summary.months.length;
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4 mb-8">
+      <KpiCard
+        label={LABELS.totalRevenue[language]}
+        value={formatCurrency(totalRevenue.value || 0)}
+        detail={`${months} ${LABELS.months[language]}`}
+        metric={totalRevenue}
+      />
+      <KpiCard
+        label={LABELS.growthPrevPeriod[language]}
+        value={formatPct(growthPrevPeriod.value)}
+        metric={growthPrevPeriod}
+        color={growthColor(growthPrevPeriod.value)}
+      />
+      <KpiCard
+        label={LABELS.growthPrevYear[language]}
+        value={formatPct(growthPrevYear.value)}
+        metric={growthPrevYear}
+        color={growthColor(growthPrevYear.value)}
+      />
+      <KpiCard
+        label={LABELS.recurringShare[language]}
+        value={formatPct(recurringShare.value, false)}
+        metric={recurringShare}
+      />
+      <KpiCard
+        label="MRR"
+        value={mrr.value === undefined ? '-' : formatCurrency(mrr.value)}
+        detail={mrr.value === undefined ? undefined : `ARR ${formatCurrency(mrr.value * 12)}`}
+        metric={mrr}
+      />
+      <KpiCard
+        label={LABELS.averageMonthly[language]}
+        value={formatCurrency(averageMonthly.value || 0)}
+        metric={averageMonthly}
+      />
+      <KpiCard
+        label={topContributor.kind === 'customer' ? LABELS.largestCustomer[language] : LABELS.largestRevenueType[language]}
+        value={topContributor.value === undefined ? '-' : formatCurrency(topContributor.value)}
+        detail={topContributor.name && `${topContributor.name} (${formatPct(topContributor.share, false)})`}
+        metric={topContributor}
+      />
+    </div>
+  );
+};
+
+export default KpiStrip;
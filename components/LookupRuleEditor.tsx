@@ -0,0 +1,368 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown, Pencil, Trash2, Plus, Check, X } from 'lucide-react';
+
+import { Language, FinancialRecord, LookupRule, RuleMatchType, RuleField } from '../types';
+import { LABELS, MATCH_TYPE_LABELS, RULE_FIELD_LABELS } from '../constants';
+import {
+  formatCurrency, previewLookupRule, applyLookupRules, sortRulesByPriority, validateRulePattern, DEFAULT_RULE_FIELDS
+} from '../utils';
+
+interface LookupRuleEditorProps {
+  rules: LookupRule[];
+  records: FinancialRecord[];
+  language: Language;
+  onChange: (rules: LookupRule[]) => void;
+}
+
+const EMPTY_RULE: LookupRule = { mainCategory: '', subCategory: '', searchTerm: '' };
+const PREVIEW_ITEMS = 5;
+const RULE_FIELDS: RuleField[] = ['description', 'originalCategory', 'ledger', 'customer'];
+
+const ruleLabel = (rule: LookupRule) => `${rule.mainCategory}${rule.subCategory ? ` / ${rule.subCategory}` : ''} ("${rule.searchTerm}")`;
+
+const withPriority = (rule: LookupRule, priority?: number): LookupRule => {
+  const { priority: _, ...rest } = rule;
+  return priority ? { ...rest, priority } : rest;
+};
+
+// Drops empty and default conditions so stored rules stay as small as the plain ones
+const normalizeRule = (draft: LookupRule): LookupRule => {
+  const rule: LookupRule = {
+    mainCategory: draft.mainCategory.trim(),
+    subCategory: draft.subCategory.trim(),
+    searchTerm: draft.searchTerm.trim()
+  };
+  if (draft.matchType && draft.matchType !== RuleMatchType.CONTAINS) rule.matchType = draft.matchType;
+  const fields = RULE_FIELDS.filter(f => draft.fields?.includes(f));
+  if (fields.length > 0 && fields.join() !== DEFAULT_RULE_FIELDS.join()) rule.fields = fields;
+  if (draft.minAmount !== undefined) rule.minAmount = draft.minAmount;
+  if (draft.maxAmount !== undefined) rule.maxAmount = draft.maxAmount;
+  if (draft.validFrom) rule.validFrom = draft.validFrom;
+  if (draft.validTo) rule.validTo = draft.validTo;
+  return withPriority(rule, draft.priority);
+};
+
+const toNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+// Rules are listed in the order they are tried: priority first, then position. First match wins.
+const LookupRuleEditor: React.FC<LookupRuleEditorProps> = ({ rules, records, language, onChange }) => {
+  // List index of the rule being edited; rules.length while adding a new one
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<LookupRule>(EMPTY_RULE);
+
+  const ordered = useMemo(() => sortRulesByPriority(rules), [rules]);
+  const hitCounts = useMemo(() => {
+    const { matchCounts } = applyLookupRules(records, rules);
+    return new Map(rules.map((rule, idx) => [rule, matchCounts[idx]]));
+  }, [records, rules]);
+
+  const patternError = validateRulePattern(draft);
+  const canSave = !!draft.mainCategory.trim() && !!draft.searchTerm.trim() && !patternError;
+
+  const startEdit = (index: number) => {
+    setEditingIndex(index);
+    setDraft(index < rules.length ? rules[index] : EMPTY_RULE);
+  };
+
+  const cancelEdit = () => setEditingIndex(null);
+
+  const saveEdit = () => {
+    if (editingIndex === null || !canSave) return;
+    const rule = normalizeRule(draft);
+    const next = [...rules];
+    if (editingIndex < rules.length) next[editingIndex] = rule;
+    else next.push(rule);
+    onChange(next);
+    setEditingIndex(null);
+  };
+
+  // Swaps two neighbours in the applied order: they exchange list position and priority
+  const move = (orderIdx: number, offset: number) => {
+    const a = ordered[orderIdx];
+    const b = ordered[orderIdx + offset];
+    if (!a || !b) return;
+    const ia = rules.indexOf(a);
+    const ib = rules.indexOf(b);
+    const next = [...rules];
+    next[ia] = withPriority(b, a.priority);
+    next[ib] = withPriority(a, b.priority);
+    onChange(next);
+  };
+
+  const remove = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+    if (editingIndex !== null) setEditingIndex(null);
+  };
+
+  const preview = useMemo(() => {
+    if (editingIndex === null || !draft.searchTerm.trim() || patternError) return null;
+    const others = rules.filter((_, i) => i !== editingIndex);
+    return previewLookupRule(records, others, rules, normalizeRule(draft), editingIndex);
+  }, [editingIndex, draft, rules, records, patternError]);
+
+  // Taken-over records grouped by the rule that loses them
+  const takenByRule = useMemo(() => {
+    const groups = new Map<LookupRule, { count: number; total: number }>();
+    preview?.taken.forEach(({ record, rule }) => {
+      const group = groups.get(rule) || { count: 0, total: 0 };
+      group.count++;
+      group.total += record.amount;
+      groups.set(rule, group);
+    });
+    return Array.from(groups.entries()).sort((a, b) => b[1].count - a[1].count);
+  }, [preview]);
+
+  const shadowingRules = useMemo(() =>
+    Array.from(new Set(preview?.shadowed.map(s => s.rule) || [])),
+  [preview]);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') saveEdit();
+    if (e.key === 'Escape') cancelEdit();
+  };
+
+  const input = (field: 'mainCategory' | 'subCategory' | 'searchTerm', mono = false) => (
+    <input
+      type="text"
+      value={draft[field]}
+      onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+      onKeyDown={onKeyDown}
+      className={`w-full bg-white border border-slate-300 rounded p-1 text-sm ${mono ? 'font-mono text-xs' : ''}`}
+      style={field === 'searchTerm' && patternError ? { borderColor: 'var(--color-high-risk)' } : {}}
+    />
+  );
+
+  // Conditions besides the search term, as short badges
+  const conditions = (rule: LookupRule): string[] => [
+    rule.matchType && rule.matchType !== RuleMatchType.CONTAINS ? MATCH_TYPE_LABELS[rule.matchType][language] : '',
+    rule.fields && rule.fields.length > 0 ? rule.fields.map(f => RULE_FIELD_LABELS[f][language]).join(' + ') : '',
+    rule.minAmount !== undefined || rule.maxAmount !== undefined
+      ? `${rule.minAmount !== undefined ? formatCurrency(rule.minAmount) : ''} - ${rule.maxAmount !== undefined ? formatCurrency(rule.maxAmount) : ''}`
+      : '',
+    rule.validFrom || rule.validTo ? `${rule.validFrom || '...'} / ${rule.validTo || '...'}` : ''
+  ].filter(Boolean);
+
+  const renderEditRows = (key: string, rank: number) => {
+    const fields = draft.fields && draft.fields.length > 0 ? draft.fields : DEFAULT_RULE_FIELDS;
+    return (
+      <React.Fragment key={key}>
+        <tr className="bg-slate-50">
+          <td className="px-2 py-2 text-xs text-slate-400">{rank}</td>
+          <td className="px-2 py-2">{input('mainCategory')}</td>
+          <td className="px-2 py-2">{input('subCategory')}</td>
+          <td className="px-2 py-2">{input('searchTerm', true)}</td>
+          <td className="px-2 py-2">
+            <input
+              type="number"
+              value={draft.priority ?? 0}
+              onChange={(e) => setDraft({ ...draft, priority: toNumber(e.target.value) })}
+              onKeyDown={onKeyDown}
+              className="w-16 bg-white border border-slate-300 rounded p-1 text-sm"
+            />
+          </td>
+          <td className="px-2 py-2"></td>
+          <td className="px-2 py-2 whitespace-nowrap text-right">
+            <button
+              onClick={saveEdit}
+              disabled={!canSave}
+              className="p-1 rounded hover:bg-slate-100 disabled:opacity-40"
+              style={{ color: 'var(--color-primary)' }}
+            >
+              <Check className="w-4 h-4" />
+            </button>
+            <button onClick={cancelEdit} className="p-1 rounded hover:bg-slate-100 text-slate-400">
+              <X className="w-4 h-4" />
+            </button>
+          </td>
+        </tr>
+        <tr className="border-b bg-slate-50">
+          <td></td>
+          <td colSpan={6} className="px-2 pb-3">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-xs">
+              <label className="block">
+                <span className="font-semibold text-slate-500 uppercase">{LABELS.matchType[language]}</span>
+                <select
+                  value={draft.matchType || RuleMatchType.CONTAINS}
+                  onChange={(e) => setDraft({ ...draft, matchType: e.target.value as RuleMatchType })}
+                  className="mt-1 w-full bg-white border border-slate-300 rounded p-1"
+                >
+                  {Object.values(RuleMatchType).map(t => <option key={t} value={t}>{MATCH_TYPE_LABELS[t][language]}</option>)}
+                </select>
+              </label>
+              <div className="md:col-span-2">
+                <span className="font-semibold text-slate-500 uppercase">{LABELS.matchFields[language]}</span>
+                <div className="mt-1 flex flex-wrap gap-3">
+                  {RULE_FIELDS.map(f => (
+                    <label key={f} className="flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={fields.includes(f)}
+                        onChange={() => setDraft({ ...draft, fields: fields.includes(f) ? fields.filter(x => x !== f) : [...fields, f] })}
+                      />
+                      {RULE_FIELD_LABELS[f][language]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              {([
+                ['minAmount', LABELS.minAmountShort[language]],
+                ['maxAmount', LABELS.maxAmountShort[language]]
+              ] as const).map(([field, label]) => (
+                <label key={field} className="block">
+                  <span className="font-semibold text-slate-500 uppercase">{label}</span>
+                  <input
+                    type="number"
+                    value={draft[field] ?? ''}
+                    onChange={(e) => setDraft({ ...draft, [field]: toNumber(e.target.value) })}
+                    onKeyDown={onKeyDown}
+                    className="mt-1 w-full bg-white border border-slate-300 rounded p-1"
+                  />
+                </label>
+              ))}
+              <div className="grid grid-cols-2 gap-2 col-span-2 md:col-span-1">
+                {([
+                  ['validFrom', LABELS.validFrom[language]],
+                  ['validTo', LABELS.validTo[language]]
+                ] as const).map(([field, label]) => (
+                  <label key={field} className="block">
+                    <span className="font-semibold text-slate-500 uppercase">{label}</span>
+                    <input
+                      type="date"
+                      value={draft[field] || ''}
+                      onChange={(e) => setDraft({ ...draft, [field]: e.target.value || undefined })}
+                      className="mt-1 w-full bg-white border border-slate-300 rounded p-1"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+            {patternError && <p className="mt-2 text-xs" style={{ color: 'var(--color-high-risk)' }}>{patternError}</p>}
+          </td>
+        </tr>
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div>
+      <div className="overflow-x-auto max-h-[400px]">
+        <table className="w-full text-sm text-left text-slate-600">
+          <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0 z-10">
+            <tr>
+              <th className="px-2 py-3 w-8">#</th>
+              <th className="px-2 py-3">Hoofdsoort</th>
+              <th className="px-2 py-3">Subcategorie</th>
+              <th className="px-2 py-3">Zoekterm</th>
+              <th className="px-2 py-3">{LABELS.priority[language]}</th>
+              <th className="px-2 py-3 text-right">{LABELS.hits[language]}</th>
+              <th className="px-2 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {ordered.map((rule, orderIdx) => {
+              const idx = rules.indexOf(rule);
+              if (idx === editingIndex) return renderEditRows(`edit-${idx}`, orderIdx + 1);
+              return (
+                <tr key={idx} className="bg-white border-b hover:bg-slate-50">
+                  <td className="px-2 py-2 text-xs text-slate-400">{orderIdx + 1}</td>
+                  <td className="px-2 py-2 font-medium" style={{ color: 'var(--color-text)' }}>{rule.mainCategory}</td>
+                  <td className="px-2 py-2">{rule.subCategory}</td>
+                  <td className="px-2 py-2">
+                    <span className="font-mono text-xs">{rule.searchTerm}</span>
+                    {conditions(rule).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {conditions(rule).map(c => (
+                          <span key={c} className="text-[10px] bg-slate-100 text-slate-500 rounded px-1.5 py-0.5">{c}</span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-2 py-2 text-xs">{rule.priority || 0}</td>
+                  <td className="px-2 py-2 text-xs text-right">{hitCounts.get(rule) || 0}</td>
+                  <td className="px-2 py-2 whitespace-nowrap text-right text-slate-400">
+                    <button onClick={() => move(orderIdx, -1)} disabled={orderIdx === 0} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" title={LABELS.moveUp[language]}>
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => move(orderIdx, 1)} disabled={orderIdx === ordered.length - 1} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" title={LABELS.moveDown[language]}>
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => startEdit(idx)} className="p-1 rounded hover:bg-slate-100 hover:text-slate-700" title={LABELS.editRule[language]}>
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => remove(idx)} className="p-1 rounded hover:bg-slate-100 hover:text-red-600" title={LABELS.deleteRule[language]}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {editingIndex === rules.length && renderEditRows('new', rules.length + 1)}
+          </tbody>
+        </table>
+      </div>
+
+      {editingIndex === null && (
+        <button
+          onClick={() => startEdit(rules.length)}
+          className="mt-3 flex items-center gap-1 text-sm font-medium hover:underline"
+          style={{ color: 'var(--color-primary)' }}
+        >
+          <Plus className="w-4 h-4" />
+          {LABELS.addRule[language]}
+        </button>
+      )}
+
+      {/* Live effect of the rule being edited */}
+      {editingIndex !== null && (
+        <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 p-4 text-sm">
+          <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">{LABELS.rulePreview[language]}</h4>
+          {!preview ? (
+            <p className="text-slate-400 italic">{LABELS.enterSearchTerm[language]}</p>
+          ) : records.length === 0 ? (
+            <p className="text-slate-400 italic">{LABELS.noData[language]}</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-4">
+                <span><strong>{preview.matched}</strong> {LABELS.recordsMatched[language]}</span>
+                <span style={{ color: 'var(--color-primary)' }}><strong>{preview.won.length}</strong> {LABELS.recordsClassified[language]} ({formatCurrency(preview.won.reduce((s, r) => s + r.amount, 0))})</span>
+                <span><strong>{preview.newlyClassified}</strong> {LABELS.newlyClassified[language]}</span>
+                <span style={{ color: 'var(--color-medium-risk)' }}><strong>{preview.taken.length}</strong> {LABELS.takenFromOtherRules[language]}</span>
+                <span className="text-slate-400"><strong>{preview.shadowed.length}</strong> {LABELS.shadowedByEarlierRules[language]}</span>
+              </div>
+
+              {takenByRule.length > 0 && (
+                <ul className="space-y-1">
+                  {takenByRule.slice(0, PREVIEW_ITEMS).map(([rule, group]) => (
+                    <li key={ruleLabel(rule)} className="text-xs text-slate-600">
+                      <span className="font-semibold">{group.count}</span> {LABELS.from[language]} {ruleLabel(rule)}
+                      <span className="text-slate-400"> · {formatCurrency(group.total)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {shadowingRules.length > 0 && (
+                <p className="text-xs text-slate-400">
+                  {LABELS.earlierRulesWin[language]}: {shadowingRules.slice(0, PREVIEW_ITEMS).map(ruleLabel).join(', ')}
+                </p>
+              )}
+
+              {preview.won.length > 0 && (
+                <div className="bg-white rounded border border-slate-200 divide-y divide-slate-100 max-h-40 overflow-y-auto">
+                  {preview.won.slice(0, 50).map((r, idx) => (
+                    <div key={`${r.id}-${idx}`} className="flex justify-between gap-2 px-2 py-1 text-xs">
+                      <span className="truncate text-slate-700">{r.description || r.originalCategory || r.id}</span>
+                      <span className="whitespace-nowrap text-slate-400">{r.revenueType} → {draft.mainCategory || '?'} · {formatCurrency(r.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LookupRuleEditor;
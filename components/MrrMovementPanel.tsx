@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { Repeat } from 'lucide-react';
+import { format } from 'date-fns';
+
+import { Language, FinancialRecord, MrrMovement } from '../types';
+import { LABELS, RECURRING_REVENUE_TYPE } from '../constants';
+import { formatCurrency } from '../utils';
+import { calculateMrrMovements } from '../services/mrrService';
+
+interface MrrMovementPanelProps {
+  history: FinancialRecord[]; // Full history of the selected revenue types
+  period: { start: Date; end: Date };
+  language: Language;
+}
+
+type MovementKey = keyof Omit<MrrMovement, 'month' | 'startMrr' | 'endMrr'>;
+
+const MOVEMENTS: { key: MovementKey; color: string }[] = [
+  { key: 'newMrr', color: 'var(--color-primary)' },
+  { key: 'expansion', color: 'var(--color-low-risk)' },
+  { key: 'reactivated', color: 'var(--color-accent1, #8884d8)' },
+  { key: 'contraction', color: 'var(--color-medium-risk)' },
+  { key: 'churned', color: 'var(--color-high-risk)' }
+];
+
+// Green at the goal, amber up to ten points below it
+const retentionColor = (pct: number | undefined, goal: number) => {
+  if (pct === undefined) return 'var(--color-text)';
+  if (pct >= goal) return 'var(--color-low-risk)';
+  return pct >= goal - 10 ? 'var(--color-medium-risk)' : 'var(--color-high-risk)';
+};
+
+// MRR bridge of the recurring revenue: what new, expanding, shrinking and lost customers did to it each month
+const MrrMovementPanel: React.FC<MrrMovementPanelProps> = ({ history, period, language }) => {
+  const analysis = useMemo(() => calculateMrrMovements(history, period), [history, period]);
+
+  const chartData = useMemo(() =>
+    (analysis?.movements || []).map(m => ({
+      ...m,
+      name: m.month,
+      net: m.newMrr + m.expansion + m.reactivated + m.contraction + m.churned
+    })),
+  [analysis]);
+
+  if (!analysis) return null;
+
+  const totals = MOVEMENTS.reduce((acc, { key }) => {
+    acc[key] = analysis.movements.reduce((sum, m) => sum + m[key], 0);
+    return acc;
+  }, {} as Record<MovementKey, number>);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <Repeat className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+          {LABELS.mrrMovements[language]}
+        </h2>
+        <span className="text-xs text-slate-500">{RECURRING_REVENUE_TYPE} · {analysis.customers} {LABELS.customers[language].toLowerCase()}</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: `MRR ${LABELS.periodStart[language]}`, value: formatCurrency(analysis.startMrr) },
+          { label: `MRR ${LABELS.periodEnd[language]}`, value: formatCurrency(analysis.endMrr), detail: `ARR ${formatCurrency(analysis.endMrr * 12)}` },
+          { label: 'NRR', value: analysis.nrr === undefined ? '-' : `${analysis.nrr.toFixed(1)}%`, color: retentionColor(analysis.nrr, 100), detail: LABELS.netRetention[language] },
+          { label: 'GRR', value: analysis.grr === undefined ? '-' : `${analysis.grr.toFixed(1)}%`, color: retentionColor(analysis.grr, 90), detail: LABELS.grossRetention[language] }
+        ].map(card => (
+          <div key={card.label} className="rounded-lg border border-slate-200 p-4 bg-slate-50 min-w-0">
+            <div className="text-xs font-semibold text-slate-500 uppercase mb-1 truncate">{card.label}</div>
+            <div className="text-lg font-bold" style={{ color: card.color || 'var(--color-text)' }}>{card.value}</div>
+            {card.detail && <div className="text-xs text-slate-500 truncate" title={card.detail}>{card.detail}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="h-[280px] w-full mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} stackOffset="sign" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="name" stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => format(new Date(val), 'MMM yy')} />
+            <YAxis stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => `${val/1000}k`} />
+            <Tooltip formatter={(value: number) => `EUR ${Math.round(value).toLocaleString()}`} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            {MOVEMENTS.map(({ key, color }) => (
+              <Bar key={key} dataKey={key} name={LABELS[key][language]} stackId="mrr" fill={color} />
+            ))}
+            <Line type="monotone" dataKey="net" name={LABELS.netMovement[language]} stroke="var(--color-text)" strokeWidth={2} dot={{ r: 3 }} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-600">
+          <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+            <tr>
+              <th className="px-2 py-2">{LABELS.month[language]}</th>
+              <th className="px-2 py-2 text-right">{LABELS.periodStart[language]}</th>
+              {MOVEMENTS.map(({ key }) => <th key={key} className="px-2 py-2 text-right">{LABELS[key][language]}</th>)}
+              <th className="px-2 py-2 text-right">{LABELS.periodEnd[language]}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...analysis.movements].reverse().map(m => (
+              <tr key={m.month} className="border-b">
+                <td className="px-2 py-1.5 whitespace-nowrap">{m.month}</td>
+                <td className="px-2 py-1.5 text-right">{formatCurrency(m.startMrr)}</td>
+                {MOVEMENTS.map(({ key }) => (
+                  <td key={key} className={`px-2 py-1.5 text-right ${m[key] === 0 ? 'text-slate-300' : ''}`}>{formatCurrency(m[key])}</td>
+                ))}
+                <td className="px-2 py-1.5 text-right font-semibold">{formatCurrency(m.endMrr)}</td>
+              </tr>
+            ))}
+            <tr className="bg-slate-50 font-semibold">
+              <td className="px-2 py-1.5">{LABELS.total[language]}</td>
+              <td className="px-2 py-1.5 text-right">{formatCurrency(analysis.startMrr)}</td>
+              {MOVEMENTS.map(({ key }) => <td key={key} className="px-2 py-1.5 text-right">{formatCurrency(totals[key])}</td>)}
+              <td className="px-2 py-1.5 text-right">{formatCurrency(analysis.endMrr)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MrrMovementPanel;
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessagesSquare, Send, RefreshCw, Trash2 } from 'lucide-react';
+
+import { Language, FinancialRecord, Comment, AnomalySettings, ChatMessage, RevenueQueryResult } from '../types';
+import { LABELS } from '../constants';
+import { formatCurrency, detectAnomalies } from '../utils';
+import { answerRevenueQuestion } from '../services/geminiService';
+import { InsightProvider } from '../services/insightProviderService';
+
+interface RevenueChatPanelProps {
+  records: FinancialRecord[]; // All visible data, not just the selection: questions may go anywhere
+  comments: Comment[];
+  anomalySettings: AnomalySettings;
+  insightProvider: InsightProvider;
+  language: Language;
+}
+
+const EXAMPLE_KEYS = ['chatExampleMovers', 'chatExampleCustomers', 'chatExampleAnomalies'] as const;
+
+// The figures behind an answer, so every number in it can be checked
+const ResultTable: React.FC<{ result: RevenueQueryResult; language: Language }> = ({ result, language }) => {
+  const hasChange = result.rows.some(r => r.change !== undefined);
+  const hasExpected = result.rows.some(r => r.expected !== undefined);
+  return (
+    <div className="mt-2">
+      <div className="text-xs font-semibold text-slate-500 mb-1">{result.label}</div>
+      {result.rows.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">{LABELS.noQueryRows[language]}</p>
+      ) : (
+        <table className="w-full text-xs text-left text-slate-600">
+          <tbody>
+            {result.rows.map(row => (
+              <tr key={row.key} className="border-b border-slate-100 align-top">
+                <td className="py-1 pr-2">
+                  {row.key}
+                  {row.description && <div className="text-slate-400">{row.description}</div>}
+                  {row.comments?.map((c, i) => <div key={i} className="text-slate-400 italic">"{c}"</div>)}
+                </td>
+                <td className="py-1 px-2 text-right whitespace-nowrap">{formatCurrency(row.amount)}</td>
+                {hasChange && (
+                  <td
+                    className="py-1 pl-2 text-right whitespace-nowrap font-medium"
+                    style={{ color: (row.change || 0) >= 0 ? 'var(--color-low-risk)' : 'var(--color-high-risk)' }}
+                  >
+                    {(row.change || 0) > 0 ? '+' : ''}{formatCurrency(row.change || 0)}
+                    {row.changePct !== undefined && ` (${row.changePct > 0 ? '+' : ''}${row.changePct.toFixed(0)}%)`}
+                  </td>
+                )}
+                {hasExpected && (
+                  <td className="py-1 pl-2 text-right whitespace-nowrap text-slate-400">
+                    {row.expected !== undefined && `${LABELS.expected[language]} ${formatCurrency(row.expected)}`}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+// "Ask your revenue data": questions answered from local calculations, explained by the AI provider
+const RevenueChatPanel: React.FC<RevenueChatPanelProps> = ({ records, comments, anomalySettings, insightProvider, language }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isAnswering]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isAnswering) return;
+    const userMessage: ChatMessage = { id: Math.random().toString(36).substr(2, 9), role: 'user', text: trimmed };
+    const history = messages;
+    setMessages(prev => [...prev, userMessage]);
+    setQuestion('');
+    setIsAnswering(true);
+    try {
+      const dataset = { records, anomalies: detectAnomalies(records, anomalySettings), comments };
+      const answer = await answerRevenueQuestion(trimmed, history, dataset, language, insightProvider);
+      setMessages(prev => [...prev, answer]);
+    } catch (error) {
+      console.error("Revenue question failed:", error);
+      setMessages(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), role: 'assistant', text: LABELS.chatFailed[language] }]);
+    } finally {
+      setIsAnswering(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <MessagesSquare className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+          {LABELS.askYourData[language]}
+        </h2>
+        {messages.length > 0 && (
+          <button
+            onClick={() => setMessages([])}
+            disabled={isAnswering}
+            className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-700 disabled:opacity-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            {LABELS.clearChat[language]}
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="max-h-[480px] overflow-y-auto space-y-3 mb-4">
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_KEYS.map(key => (
+              <button
+                key={key}
+                onClick={() => ask(LABELS[key][language])}
+                className="text-xs rounded-full border border-slate-200 bg-slate-50 px-3 py-1.5 text-slate-600 hover:bg-slate-100"
+              >
+                {LABELS[key][language]}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="ml-auto max-w-[85%] w-fit rounded-lg px-3 py-2 text-sm text-white" style={{ backgroundColor: 'var(--color-primary)' }}>
+            {message.text}
+          </div>
+        ) : (
+          <div key={message.id} className="max-w-[90%] rounded-lg px-3 py-2 text-sm bg-slate-50 border border-slate-200" style={{ color: 'var(--color-text)' }}>
+            <p className="whitespace-pre-line">{message.text}</p>
+            {message.results && message.results.length > 0 && (
+              <details className="mt-2">
+                <summary className="text-xs font-medium cursor-pointer" style={{ color: 'var(--color-primary)' }}>
+                  {LABELS.calculations[language]} ({message.results.length})
+                </summary>
+                {message.results.map((result, i) => <ResultTable key={i} result={result} language={language} />)}
+              </details>
+            )}
+          </div>
+        ))}
+        {isAnswering && (
+          <div className="flex items-center gap-2 text-xs text-slate-400">
+            <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+            {LABELS.answering[language]}
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); ask(question); }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={LABELS.chatPlaceholder[language]}
+          className="flex-1 bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg p-2.5"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || isAnswering}
+          className="flex items-center gap-2 text-white px-4 py-2 rounded-lg transition-all hover:opacity-90 disabled:opacity-50"
+          style={{ backgroundColor: 'var(--color-primary)' }}
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RevenueChatPanel;
@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import {
+  AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { format } from 'date-fns';
+
+import { Language, ChartView, RevenueBridgeStep } from '../types';
+import { LABELS } from '../constants';
+import { formatCurrency } from '../utils';
+
+interface RevenueMixChartProps {
+  view: ChartView;
+  chartData: { name: string; [key: string]: number | number[] | string }[]; // Trend chart rows (month + series)
+  series: string[];
+  composition: Record<string, number>; // Total per series in the analysis window
+  bridge: RevenueBridgeStep[];
+  colors: string[];
+  language: Language;
+}
+
+const tooltipStyle = { backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const formatEur = (value: number) => `EUR ${Math.round(value).toLocaleString()}`;
+
+// Alternative views of the trend card: how the mix of the series shifts and what drives the change in total
+const RevenueMixChart: React.FC<RevenueMixChartProps> = ({ view, chartData, series, composition, bridge, colors, language }) => {
+  const colorOf = (name: string) => colors[Math.max(series.indexOf(name), 0) % colors.length];
+
+  // Actual months only (forecast rows have no series values); a missing series counts as zero so the stack stays closed
+  const stackedRows = useMemo(() =>
+    chartData
+      .filter(row => series.some(s => typeof row[s] === 'number'))
+      .map(row => ({ name: row.name, ...Object.fromEntries(series.map(s => [s, typeof row[s] === 'number' ? row[s] : 0])) })),
+  [chartData, series]);
+
+  const slices = useMemo(() =>
+    series
+      .map(name => ({ name, value: composition[name] || 0 }))
+      .filter(s => s.value > 0),
+  [series, composition]);
+  const compositionTotal = slices.reduce((sum, s) => sum + s.value, 0);
+
+  if (view === ChartView.STACKED || view === ChartView.STACKED_PERCENT) {
+    const isPercent = view === ChartView.STACKED_PERCENT;
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={stackedRows} stackOffset={isPercent ? 'expand' : 'none'} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+          <XAxis dataKey="name" stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => format(new Date(val), 'MMM yy')} />
+          <YAxis
+            stroke="#64748b"
+            tick={{fill: '#64748b', fontSize: 12}}
+            tickFormatter={(val) => isPercent ? `${Math.round(val * 100)}%` : `${val/1000}k`}
+          />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value: number, name: string, item: any) => {
+              if (!isPercent) return [formatEur(value), name];
+              const total = series.reduce((sum, s) => sum + (Number(item?.payload?.[s]) || 0), 0);
+              const share = total !== 0 ? value / total * 100 : 0;
+              return [`${share.toFixed(1)}% (${formatEur(value)})`, name];
+            }}
+          />
+          <Legend />
+          {series.map(s => (
+            <Area
+              key={s}
+              type="monotone"
+              dataKey={s}
+              stackId="mix"
+              stroke={colorOf(s)}
+              fill={colorOf(s)}
+              fillOpacity={0.6}
+            />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (view === ChartView.DONUT) {
+    if (slices.length === 0) {
+      return <div className="h-full flex items-center justify-center text-slate-400 italic">{LABELS.noData[language]}</div>;
+    }
+    return (
+      <div className="h-full flex flex-col md:flex-row items-center gap-6">
+        <div className="h-full w-full md:w-1/2 relative">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie data={slices} dataKey="value" nameKey="name" innerRadius="55%" outerRadius="85%" paddingAngle={1}>
+                {slices.map(s => <Cell key={s.name} fill={colorOf(s.name)} />)}
+              </Pie>
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => [`${formatEur(value)} (${(value / compositionTotal * 100).toFixed(1)}%)`, name]}
+              />
+            </PieChart>
+          </ResponsiveContainer>
+          <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+            <span className="text-xs text-slate-500 uppercase">{LABELS.total[language]}</span>
+            <span className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>{formatCurrency(compositionTotal)}</span>
+          </div>
+        </div>
+        <ul className="w-full md:w-1/2 space-y-2 text-sm">
+          {[...slices].sort((a, b) => b.value - a.value).map(s => (
+            <li key={s.name} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: colorOf(s.name) }} />
+              <span className="flex-1 text-slate-700 truncate">{s.name}</span>
+              <span className="font-semibold">{formatCurrency(s.value)}</span>
+              <span className="w-14 text-right text-xs text-slate-500">{(s.value / compositionTotal * 100).toFixed(1)}%</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  // Waterfall: totals in the primary colour, increases and decreases in the theme's low and high risk colours
+  const stepColor = (step: RevenueBridgeStep) => {
+    if (step.kind === 'total') return colors[0];
+    return step.kind === 'increase' ? colors[1 % colors.length] : colors[3 % colors.length];
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={bridge} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+        <XAxis dataKey="name" stroke="#64748b" tick={{fill: '#64748b', fontSize: 11}} interval={0} />
+        <YAxis stroke="#64748b" tick={{fill: '#64748b', fontSize: 12}} tickFormatter={(val) => `${val/1000}k`} />
+        <Tooltip
+          contentStyle={tooltipStyle}
+          formatter={(_value: number[], _name: string, item: any) => {
+            const step: RevenueBridgeStep = item.payload;
+            const sign = step.kind === 'increase' ? '+' : '';
+            return [`${sign}${formatEur(step.value)}`, step.kind === 'total' ? LABELS.total[language] : LABELS.change[language]];
+          }}
+        />
+        <ReferenceLine y={0} stroke="#94a3b8" />
+        <Bar dataKey="range" isAnimationActive={false}>
+          {bridge.map(step => <Cell key={step.name} fill={stepColor(step)} />)}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default RevenueMixChart;
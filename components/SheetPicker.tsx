@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Layers, X } from 'lucide-react';
+
+import { Language, UploadSheet } from '../types';
+import { LABELS } from '../constants';
+
+interface SheetPickerProps {
+  sheets: UploadSheet[];
+  language: Language;
+  onConfirm: (selected: UploadSheet[]) => void;
+  onCancel: () => void;
+}
+
+// Lets the user choose which sheets of the uploaded workbooks to import; first sheets are preselected
+const SheetPicker: React.FC<SheetPickerProps> = ({ sheets, language, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => {
+    const firstPerFile = new Set<string>();
+    const seenFiles = new Set<string>();
+    sheets.forEach(s => {
+      if (!seenFiles.has(s.fileName)) {
+        seenFiles.add(s.fileName);
+        firstPerFile.add(s.source);
+      }
+    });
+    return firstPerFile;
+  });
+
+  const toggle = (source: string) => {
+    const next = new Set(selected);
+    if (next.has(source)) next.delete(source);
+    else next.add(source);
+    setSelected(next);
+  };
+
+  const files = Array.from(new Set(sheets.map(s => s.fileName)));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+            <Layers className="w-5 h-5" style={{ color: 'var(--color-primary)' }} />
+            {LABELS.selectSheets[language]}
+          </h2>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {files.map(fileName => (
+            <div key={fileName}>
+              <h3 className="text-sm font-semibold text-slate-700 mb-2">{fileName}</h3>
+              <div className="space-y-1">
+                {sheets.filter(s => s.fileName === fileName).map(sheet => (
+                  <label key={sheet.source} className="flex items-center justify-between gap-2 px-3 py-2 rounded border border-slate-200 hover:bg-slate-50 cursor-pointer text-sm">
+                    <span className="flex items-center gap-2">
+                      <input type="checkbox" checked={selected.has(sheet.source)} onChange={() => toggle(sheet.source)} />
+                      {sheet.sheetName || fileName}
+                    </span>
+                    <span className="text-xs text-slate-400">{Math.max(0, sheet.data.length - 1)} {LABELS.rows[language]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-4 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50">
+            {LABELS.cancel[language]}
+          </button>
+          <button
+            onClick={() => onConfirm(sheets.filter(s => selected.has(s.source)))}
+            disabled={selected.size === 0}
+            className="px-4 py-2 rounded-lg text-white hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: 'var(--color-primary)' }}
+          >
+            {LABELS.import[language]} ({selected.size})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPicker;
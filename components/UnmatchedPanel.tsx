@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Wand2, Sparkles, RefreshCw } from 'lucide-react';
+
+import { Language, FinancialRecord, LookupRule, RuleMatchType, CategorySuggestion } from '../types';
+import { LABELS, MATCH_TYPE_LABELS } from '../constants';
+import { formatCurrency, summarizeUnmatched, suggestSearchTerm, compileRule, unmatchedText } from '../utils';
+import { suggestCategories } from '../services/geminiService';
+import { InsightProvider } from '../services/insightProviderService';
+import CategorySuggestionReview from './CategorySuggestionReview';
+
+interface UnmatchedPanelProps {
+  records: FinancialRecord[];
+  rules: LookupRule[];
+  language: Language;
+  insightProvider: InsightProvider;
+  onCreateRules: (rules: LookupRule[]) => void;
+}
+
+// Unclassified texts with their weight; selected ones can be turned into a rule on the spot
+const UnmatchedPanel: React.FC<UnmatchedPanelProps> = ({ records, rules, language, insightProvider, onCreateRules }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [mainCategory, setMainCategory] = useState('');
+  const [subCategory, setSubCategory] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [matchType, setMatchType] = useState<RuleMatchType>(RuleMatchType.CONTAINS);
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[] | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  const items = useMemo(() => summarizeUnmatched(records), [records]);
+  const unmatchedRecords = useMemo(() => records.filter(r => !r.matchedRule && unmatchedText(r)), [records]);
+
+  // Classified texts drop out of the list, and out of the selection
+  useEffect(() => {
+    const remaining = new Set(items.map(i => i.text));
+    setSelected(prev => {
+      const next = new Set(Array.from(prev).filter(text => remaining.has(text)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [items]);
+
+  // A new selection gets a fresh suggestion
+  useEffect(() => {
+    const suggestion = suggestSearchTerm(Array.from(selected));
+    setSearchTerm(suggestion?.searchTerm || '');
+    setMatchType(suggestion?.matchType || RuleMatchType.CONTAINS);
+  }, [selected]);
+
+  const mainCategories = useMemo(() => Array.from(new Set(rules.map(r => r.mainCategory))).sort(), [rules]);
+  const subCategories = useMemo(() =>
+    Array.from(new Set(rules.filter(r => r.mainCategory === mainCategory).map(r => r.subCategory).filter(Boolean))).sort(),
+  [rules, mainCategory]);
+
+  const draft: LookupRule = { mainCategory: mainCategory.trim(), subCategory: subCategory.trim(), searchTerm: searchTerm.trim(), matchType };
+
+  // How much of the unmatched revenue the rule picks up, and whether it covers the selection
+  const coverage = useMemo(() => {
+    if (!draft.searchTerm) return null;
+    const test = compileRule(draft);
+    const hits = unmatchedRecords.filter(test);
+    return {
+      count: hits.length,
+      total: hits.reduce((sum, r) => sum + r.amount, 0),
+      missed: Array.from(selected).filter(text => !hits.some(r => unmatchedText(r) === text)).length
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft.searchTerm, draft.matchType, unmatchedRecords, selected]);
+
+  const toggle = (text: string) => {
+    const next = new Set(selected);
+    if (next.has(text)) next.delete(text);
+    else next.add(text);
+    setSelected(next);
+  };
+
+  const createRule = () => {
+    if (!draft.mainCategory || !draft.searchTerm) return;
+    const rule: LookupRule = { mainCategory: draft.mainCategory, subCategory: draft.subCategory, searchTerm: draft.searchTerm };
+    if (matchType !== RuleMatchType.CONTAINS) rule.matchType = matchType;
+    onCreateRules([rule]);
+  };
+
+  // Proposals for the selection, or for the largest unmatched items when nothing is selected
+  const requestSuggestions = async () => {
+    const texts = selected.size > 0 ? Array.from(selected) : items.map(i => i.text);
+    setIsSuggesting(true);
+    try {
+      setSuggestions(await suggestCategories(texts, rules, language, insightProvider));
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const weights = useMemo(() =>
+    Object.fromEntries(items.map(i => [i.text, { count: i.count, total: i.total }])),
+  [items]);
+
+  const totalUnmatched = items.reduce((sum, i) => sum + i.total, 0);
+
+  return (
+    <div className="lg:col-span-1 bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex flex-col max-h-[720px]">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-bold text-slate-800">{LABELS.unmatchedItems[language]}</h3>
+        <span className="bg-red-100 text-red-700 text-xs font-bold px-2 py-1 rounded-full">{items.length}</span>
+      </div>
+      {items.length > 0 && (
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <p className="text-xs text-slate-500">{unmatchedRecords.length} {LABELS.records[language]} · {formatCurrency(totalUnmatched)}</p>
+          <button
+            onClick={requestSuggestions}
+            disabled={isSuggesting}
+            className="flex items-center gap-1 text-xs font-medium hover:underline disabled:opacity-50"
+            style={{ color: 'var(--color-primary)' }}
+          >
+            {isSuggesting ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+            {LABELS.suggestCategories[language]}
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 min-h-[160px] overflow-y-auto border border-slate-100 rounded-lg p-2 bg-slate-50">
+        {items.length === 0 ? (
+          <div className="text-center text-slate-400 mt-10 italic">
+            {LABELS.allClassified[language]}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {items.map(item => (
+              <li
+                key={item.text}
+                onClick={() => toggle(item.text)}
+                className="bg-white p-2 border rounded text-sm text-slate-700 cursor-pointer flex items-start gap-2"
+                style={{ borderColor: selected.has(item.text) ? 'var(--color-primary)' : '#e2e8f0' }}
+              >
+                <input type="checkbox" checked={selected.has(item.text)} readOnly className="mt-1" />
+                <span className="flex-1 break-all">{item.text}</span>
+                <span className="text-right whitespace-nowrap text-xs">
+                  <span className="block font-semibold">{formatCurrency(item.total)}</span>
+                  <span className="text-slate-400">{item.count}x</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selected.size > 0 && (
+        <div className="mt-4 space-y-2 text-sm">
+          <div className="flex justify-between items-center">
+            <span className="text-xs font-semibold text-slate-500 uppercase">{selected.size} {LABELS.selected[language]}</span>
+            <button onClick={() => setSelected(new Set())} className="text-xs hover:underline" style={{ color: 'var(--color-primary)' }}>
+              {LABELS.clearSelection[language]}
+            </button>
+          </div>
+          <input
+            list="unmatched-main-categories"
+            value={mainCategory}
+            placeholder={LABELS.mainCategory[language]}
+            onChange={(e) => setMainCategory(e.target.value)}
+            className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2"
+          />
+          <datalist id="unmatched-main-categories">
+            {mainCategories.map(c => <option key={c} value={c} />)}
+          </datalist>
+          <input
+            list="unmatched-sub-categories"
+            value={subCategory}
+            placeholder={LABELS.subCategory[language]}
+            onChange={(e) => setSubCategory(e.target.value)}
+            className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2"
+          />
+          <datalist id="unmatched-sub-categories">
+            {subCategories.map(c => <option key={c} value={c} />)}
+          </datalist>
+          <div className="flex gap-2">
+            <input
+              value={searchTerm}
+              placeholder={LABELS.searchTerm[language]}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-300 rounded-lg p-2 font-mono text-xs"
+            />
+            <select
+              value={matchType}
+              onChange={(e) => setMatchType(e.target.value as RuleMatchType)}
+              className="bg-slate-50 border border-slate-300 rounded-lg p-2 text-xs"
+            >
+              {Object.values(RuleMatchType).filter(t => t !== RuleMatchType.REGEX).map(t => (
+                <option key={t} value={t}>{MATCH_TYPE_LABELS[t][language]}</option>
+              ))}
+            </select>
+          </div>
+          {coverage && (
+            <p className="text-xs text-slate-500">
+              {LABELS.ruleWouldClassify[language]} <strong>{coverage.count}</strong> {LABELS.records[language]} ({formatCurrency(coverage.total)})
+              {coverage.missed > 0 && (
+                <span style={{ color: 'var(--color-medium-risk)' }}> · {coverage.missed} {LABELS.selectedNotCovered[language]}</span>
+              )}
+            </p>
+          )}
+          <button
+            onClick={createRule}
+            disabled={!draft.mainCategory || !draft.searchTerm}
+            className="w-full flex justify-center items-center gap-2 text-white px-4 py-2 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: 'var(--color-primary)' }}
+          >
+            <Wand2 className="w-4 h-4" />
+            {LABELS.createRule[language]}
+          </button>
+        </div>
+      )}
+
+      {suggestions && (
+        <CategorySuggestionReview
+          suggestions={suggestions}
+          weights={weights}
+          rules={rules}
+          language={language}
+          onApply={(newRules) => {
+            setSuggestions(null);
+            onCreateRules(newRules);
+          }}
+          onCancel={() => setSuggestions(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UnmatchedPanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { FolderOpen, Plus, Download, Upload, Trash2 } from 'lucide-react';
+
+import { Language } from '../types';
+import { LABELS } from '../constants';
+import { formatDate } from '../utils';
+
+interface WorkspaceSwitcherProps {
+  current: string;
+  workspaces: { name: string; updatedAt: Date }[];
+  language: Language;
+  onSwitch: (name: string) => void;
+  onCreate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  current, workspaces, language, onSwitch, onCreate, onDelete, onExport, onImport
+}) => {
+  // The open workspace is listed even before its first save
+  const names = workspaces.some(w => w.name === current) ? workspaces : [{ name: current, updatedAt: new Date() }, ...workspaces];
+
+  return (
+    <div className="flex items-center gap-1">
+      <FolderOpen className="w-4 h-4 text-slate-400 hidden md:block" />
+      <select
+        value={current}
+        onChange={(e) => onSwitch(e.target.value)}
+        title={LABELS.workspace[language]}
+        className="max-w-[180px] bg-slate-50 border border-slate-200 text-slate-700 text-sm rounded-lg p-1.5"
+      >
+        {names.map(w => (
+          <option key={w.name} value={w.name}>{w.name} · {formatDate(w.updatedAt, language)}</option>
+        ))}
+      </select>
+      <button onClick={onCreate} className="p-1.5 rounded hover:bg-slate-100 text-slate-500" title={LABELS.newWorkspace[language]}>
+        <Plus className="w-4 h-4" />
+      </button>
+      <button onClick={onExport} className="p-1.5 rounded hover:bg-slate-100 text-slate-500" title={LABELS.exportWorkspace[language]}>
+        <Download className="w-4 h-4" />
+      </button>
+      <label className="p-1.5 rounded hover:bg-slate-100 text-slate-500 cursor-pointer" title={LABELS.importWorkspace[language]}>
+        <Upload className="w-4 h-4" />
+        <input
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </label>
+      <button onClick={onDelete} className="p-1.5 rounded hover:bg-slate-100 text-slate-500 hover:text-red-600" title={LABELS.deleteWorkspace[language]}>
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -1,4 +1,7 @@
-import { Language, Translations, Theme } from "./types";
+import {
+  Language, Translations, Theme, AnomalyBaseline, AnomalyMethod, ForecastMethod, ImportIssueType, RuleMatchType, ChartView,
+  ComparisonBasis, InsightProviderType
+} from "./types";
 
 export const LABELS: Translations = {
   title: {
@@ -124,6 +127,892 @@ export const LABELS: Translations = {
   appearance: {
     [Language.NL]: "Uiterlijk",
     [Language.EN]: "Appearance"
+  },
+  anomalyBaseline: {
+    [Language.NL]: "Referentie",
+    [Language.EN]: "Baseline"
+  },
+  expected: {
+    [Language.NL]: "Verwacht",
+    [Language.EN]: "Expected"
+  },
+  actual: {
+    [Language.NL]: "werkelijk",
+    [Language.EN]: "got"
+  },
+  perSubCategory: {
+    [Language.NL]: "Per subcategorie",
+    [Language.EN]: "Per subcategory"
+  },
+  underlyingRecords: {
+    [Language.NL]: "Onderliggende boekingen",
+    [Language.EN]: "Underlying records"
+  },
+  noUnderlyingRecords: {
+    [Language.NL]: "Geen boekingen in deze maand.",
+    [Language.EN]: "No records in this month."
+  },
+  anomalySettings: {
+    [Language.NL]: "Afwijkingsdetectie",
+    [Language.EN]: "Anomaly Detection"
+  },
+  detectionMethod: {
+    [Language.NL]: "Methode",
+    [Language.EN]: "Method"
+  },
+  thresholds: {
+    [Language.NL]: "Drempelwaarden",
+    [Language.EN]: "Thresholds"
+  },
+  minAbsoluteAmount: {
+    [Language.NL]: "Minimale afwijking (EUR)",
+    [Language.EN]: "Minimum deviation (EUR)"
+  },
+  typeOverrides: {
+    [Language.NL]: "Afwijkende instellingen per omzetsoort",
+    [Language.EN]: "Overrides per revenue type"
+  },
+  useDefault: {
+    [Language.NL]: "Standaard",
+    [Language.EN]: "Default"
+  },
+  compareYoY: {
+    [Language.NL]: "Vergelijk met vorig jaar",
+    [Language.EN]: "Compare with last year"
+  },
+  previousYear: {
+    [Language.NL]: "vorig jaar",
+    [Language.EN]: "last year"
+  },
+  forecast: {
+    [Language.NL]: "Prognose",
+    [Language.EN]: "Forecast"
+  },
+  forecastTotal: {
+    [Language.NL]: "Prognose totaal",
+    [Language.EN]: "Forecast total"
+  },
+  predictionInterval: {
+    [Language.NL]: "95% interval",
+    [Language.EN]: "95% interval"
+  },
+  none: {
+    [Language.NL]: "Geen",
+    [Language.EN]: "None"
+  },
+  uploadBudget: {
+    [Language.NL]: "Upload Budget",
+    [Language.EN]: "Upload Budget"
+  },
+  budgetVariance: {
+    [Language.NL]: "Budget vs. Werkelijk",
+    [Language.EN]: "Budget vs. Actual"
+  },
+  varianceThreshold: {
+    [Language.NL]: "Drempel (%)",
+    [Language.EN]: "Threshold (%)"
+  },
+  clearBudget: {
+    [Language.NL]: "Budget verwijderen",
+    [Language.EN]: "Remove budget"
+  },
+  actualLabel: {
+    [Language.NL]: "Werkelijk",
+    [Language.EN]: "Actual"
+  },
+  variance: {
+    [Language.NL]: "Afwijking",
+    [Language.EN]: "Variance"
+  },
+  month: {
+    [Language.NL]: "Maand",
+    [Language.EN]: "Month"
+  },
+  noBudgetInPeriod: {
+    [Language.NL]: "Geen budget voor deze periode.",
+    [Language.EN]: "No budget for this period."
+  },
+  flaggedVariances: {
+    [Language.NL]: "Overschreden drempels",
+    [Language.EN]: "Threshold breaches"
+  },
+  noFlaggedVariances: {
+    [Language.NL]: "Alle afwijkingen binnen de drempel.",
+    [Language.EN]: "All variances within the threshold."
+  },
+  columnMapping: {
+    [Language.NL]: "Kolommen Koppelen",
+    [Language.EN]: "Map Columns"
+  },
+  mappingProfile: {
+    [Language.NL]: "Profiel",
+    [Language.EN]: "Profile"
+  },
+  loadProfile: {
+    [Language.NL]: "Profiel laden...",
+    [Language.EN]: "Load profile..."
+  },
+  noProfiles: {
+    [Language.NL]: "Nog geen profielen",
+    [Language.EN]: "No profiles yet"
+  },
+  profileApplied: {
+    [Language.NL]: "Kolomindeling uit profiel",
+    [Language.EN]: "Column mapping from profile"
+  },
+  adjustMapping: {
+    [Language.NL]: "Aanpassen",
+    [Language.EN]: "Adjust"
+  },
+  dateFormat: {
+    [Language.NL]: "Datumnotatie",
+    [Language.EN]: "Date format"
+  },
+  decimalSeparator: {
+    [Language.NL]: "Decimaalteken",
+    [Language.EN]: "Decimal separator"
+  },
+  automatic: {
+    [Language.NL]: "Automatisch",
+    [Language.EN]: "Automatic"
+  },
+  parsedPreview: {
+    [Language.NL]: "Voorbeeld van de import",
+    [Language.EN]: "Import preview"
+  },
+  mapDateAndAmount: {
+    [Language.NL]: "Koppel minimaal een datum- en bedragkolom.",
+    [Language.EN]: "Map at least a date and an amount column."
+  },
+  saveAsProfile: {
+    [Language.NL]: "Opslaan als profiel",
+    [Language.EN]: "Save as profile"
+  },
+  profileName: {
+    [Language.NL]: "Profielnaam",
+    [Language.EN]: "Profile name"
+  },
+  cancel: {
+    [Language.NL]: "Annuleren",
+    [Language.EN]: "Cancel"
+  },
+  import: {
+    [Language.NL]: "Importeren",
+    [Language.EN]: "Import"
+  },
+  importReport: {
+    [Language.NL]: "Validatierapport Import",
+    [Language.EN]: "Import Validation Report"
+  },
+  downloadReport: {
+    [Language.NL]: "Download Rapport",
+    [Language.EN]: "Download Report"
+  },
+  totalRows: {
+    [Language.NL]: "Totaal rijen",
+    [Language.EN]: "Total rows"
+  },
+  accepted: {
+    [Language.NL]: "Geaccepteerd",
+    [Language.EN]: "Accepted"
+  },
+  rejected: {
+    [Language.NL]: "Afgewezen",
+    [Language.EN]: "Rejected"
+  },
+  warning: {
+    [Language.NL]: "Waarschuwing",
+    [Language.EN]: "Warning"
+  },
+  warnings: {
+    [Language.NL]: "Waarschuwingen",
+    [Language.EN]: "Warnings"
+  },
+  acceptedTotal: {
+    [Language.NL]: "Totaal geaccepteerd",
+    [Language.EN]: "Accepted total"
+  },
+  row: {
+    [Language.NL]: "Rij",
+    [Language.EN]: "Row"
+  },
+  reason: {
+    [Language.NL]: "Reden",
+    [Language.EN]: "Reason"
+  },
+  value: {
+    [Language.NL]: "Waarde",
+    [Language.EN]: "Value"
+  },
+  moreInDownload: {
+    [Language.NL]: "meer in het gedownloade rapport",
+    [Language.EN]: "more in the downloaded report"
+  },
+  resetDefaults: {
+    [Language.NL]: "Herstel standaardwaarden",
+    [Language.EN]: "Reset to defaults"
+  },
+  selectSheets: {
+    [Language.NL]: "Tabbladen selecteren",
+    [Language.EN]: "Select sheets"
+  },
+  rows: {
+    [Language.NL]: "rijen",
+    [Language.EN]: "rows"
+  },
+  sources: {
+    [Language.NL]: "Bronnen",
+    [Language.EN]: "Sources"
+  },
+  hideSource: {
+    [Language.NL]: "Bron verbergen in de analyse",
+    [Language.EN]: "Hide source from the analysis"
+  },
+  removeSource: {
+    [Language.NL]: "Bron verwijderen",
+    [Language.EN]: "Remove source"
+  },
+  clearAll: {
+    [Language.NL]: "Alles wissen",
+    [Language.EN]: "Clear all"
+  },
+  duplicatesRemoved: {
+    [Language.NL]: "Dubbel (verwijderd)",
+    [Language.EN]: "Duplicates (removed)"
+  },
+  workspace: {
+    [Language.NL]: "Werkruimte",
+    [Language.EN]: "Workspace"
+  },
+  newWorkspace: {
+    [Language.NL]: "Nieuwe werkruimte",
+    [Language.EN]: "New workspace"
+  },
+  workspaceName: {
+    [Language.NL]: "Naam van de werkruimte",
+    [Language.EN]: "Workspace name"
+  },
+  exportWorkspace: {
+    [Language.NL]: "Werkruimte exporteren (JSON)",
+    [Language.EN]: "Export workspace (JSON)"
+  },
+  importWorkspace: {
+    [Language.NL]: "Werkruimte importeren (JSON)",
+    [Language.EN]: "Import workspace (JSON)"
+  },
+  deleteWorkspace: {
+    [Language.NL]: "Werkruimte verwijderen",
+    [Language.EN]: "Delete workspace"
+  },
+  confirmDeleteWorkspace: {
+    [Language.NL]: "Werkruimte definitief verwijderen?",
+    [Language.EN]: "Permanently delete this workspace?"
+  },
+  workspaceExists: {
+    [Language.NL]: "Er bestaat al een werkruimte met deze naam.",
+    [Language.EN]: "A workspace with this name already exists."
+  },
+  invalidWorkspaceFile: {
+    [Language.NL]: "Dit bestand is geen geëxporteerde werkruimte.",
+    [Language.EN]: "This file is not an exported workspace."
+  },
+  storageUnavailable: {
+    [Language.NL]: "Opslaan in de browser is niet gelukt, wijzigingen blijven alleen in deze sessie bewaard.",
+    [Language.EN]: "Saving in the browser failed, changes only last for this session."
+  },
+  moveUp: {
+    [Language.NL]: "Omhoog (eerder toepassen)",
+    [Language.EN]: "Move up (apply earlier)"
+  },
+  moveDown: {
+    [Language.NL]: "Omlaag (later toepassen)",
+    [Language.EN]: "Move down (apply later)"
+  },
+  editRule: {
+    [Language.NL]: "Regel bewerken",
+    [Language.EN]: "Edit rule"
+  },
+  deleteRule: {
+    [Language.NL]: "Regel verwijderen",
+    [Language.EN]: "Delete rule"
+  },
+  addRule: {
+    [Language.NL]: "Regel toevoegen",
+    [Language.EN]: "Add rule"
+  },
+  rulePreview: {
+    [Language.NL]: "Effect van deze regel",
+    [Language.EN]: "Effect of this rule"
+  },
+  enterSearchTerm: {
+    [Language.NL]: "Vul een zoekterm in om het effect te zien.",
+    [Language.EN]: "Enter a search term to see its effect."
+  },
+  recordsMatched: {
+    [Language.NL]: "boekingen bevatten de zoekterm",
+    [Language.EN]: "records contain the search term"
+  },
+  recordsClassified: {
+    [Language.NL]: "krijgen deze regel",
+    [Language.EN]: "get this rule"
+  },
+  newlyClassified: {
+    [Language.NL]: "nu nog niet geclassificeerd",
+    [Language.EN]: "unclassified today"
+  },
+  takenFromOtherRules: {
+    [Language.NL]: "overgenomen van andere regels",
+    [Language.EN]: "taken from other rules"
+  },
+  shadowedByEarlierRules: {
+    [Language.NL]: "gaan naar een eerdere regel",
+    [Language.EN]: "go to an earlier rule"
+  },
+  from: {
+    [Language.NL]: "van",
+    [Language.EN]: "from"
+  },
+  earlierRulesWin: {
+    [Language.NL]: "Eerdere regels die voorgaan",
+    [Language.EN]: "Earlier rules that take precedence"
+  },
+  matchType: {
+    [Language.NL]: "Matchtype",
+    [Language.EN]: "Match type"
+  },
+  matchFields: {
+    [Language.NL]: "Zoeken in",
+    [Language.EN]: "Search in"
+  },
+  minAmountShort: {
+    [Language.NL]: "Min. bedrag",
+    [Language.EN]: "Min. amount"
+  },
+  maxAmountShort: {
+    [Language.NL]: "Max. bedrag",
+    [Language.EN]: "Max. amount"
+  },
+  validFrom: {
+    [Language.NL]: "Geldig vanaf",
+    [Language.EN]: "Valid from"
+  },
+  validTo: {
+    [Language.NL]: "Geldig tot",
+    [Language.EN]: "Valid until"
+  },
+  priority: {
+    [Language.NL]: "Prioriteit",
+    [Language.EN]: "Priority"
+  },
+  hits: {
+    [Language.NL]: "Treffers",
+    [Language.EN]: "Hits"
+  },
+  records: {
+    [Language.NL]: "boekingen",
+    [Language.EN]: "records"
+  },
+  selected: {
+    [Language.NL]: "geselecteerd",
+    [Language.EN]: "selected"
+  },
+  ruleWouldClassify: {
+    [Language.NL]: "Deze regel classificeert",
+    [Language.EN]: "This rule classifies"
+  },
+  selectedNotCovered: {
+    [Language.NL]: "geselecteerde niet gedekt",
+    [Language.EN]: "selected not covered"
+  },
+  createRule: {
+    [Language.NL]: "Regel aanmaken en toepassen",
+    [Language.EN]: "Create and apply rule"
+  },
+  suggestCategories: {
+    [Language.NL]: "Categorieën voorstellen",
+    [Language.EN]: "Suggest categories"
+  },
+  categorySuggestions: {
+    [Language.NL]: "Voorgestelde categorieën",
+    [Language.EN]: "Suggested categories"
+  },
+  suggestedByAI: {
+    [Language.NL]: "Voorstellen van het AI-model, kies per regel accepteren of afwijzen.",
+    [Language.EN]: "Proposals from the AI model, accept or reject each line."
+  },
+  suggestedBySimilarity: {
+    [Language.NL]: "Geen AI-sleutel: voorstellen op basis van overeenkomst met bestaande regels.",
+    [Language.EN]: "No AI key: proposals based on similarity to existing rules."
+  },
+  noSuggestions: {
+    [Language.NL]: "Geen voorstellen gevonden.",
+    [Language.EN]: "No proposals found."
+  },
+  confidence: {
+    [Language.NL]: "Zekerheid",
+    [Language.EN]: "Confidence"
+  },
+  accept: {
+    [Language.NL]: "Accepteren",
+    [Language.EN]: "Accept"
+  },
+  reject: {
+    [Language.NL]: "Afwijzen",
+    [Language.EN]: "Reject"
+  },
+  acceptRemaining: {
+    [Language.NL]: "Overige accepteren",
+    [Language.EN]: "Accept the rest"
+  },
+  createRules: {
+    [Language.NL]: "Regels aanmaken",
+    [Language.EN]: "Create rules"
+  },
+  allCategories: {
+    [Language.NL]: "Alle categorieën",
+    [Language.EN]: "All categories"
+  },
+  noSubCategory: {
+    [Language.NL]: "(geen subcategorie)",
+    [Language.EN]: "(no subcategory)"
+  },
+  drillToSubCategories: {
+    [Language.NL]: "Bekijk subcategorieën",
+    [Language.EN]: "View subcategories"
+  },
+  drillToTransactions: {
+    [Language.NL]: "Bekijk transacties",
+    [Language.EN]: "View transactions"
+  },
+  total: {
+    [Language.NL]: "Totaal",
+    [Language.EN]: "Total"
+  },
+  change: {
+    [Language.NL]: "Verandering",
+    [Language.EN]: "Change"
+  },
+  chartView: {
+    [Language.NL]: "Weergave",
+    [Language.EN]: "View"
+  },
+  compareWith: {
+    [Language.NL]: "Vergelijk met",
+    [Language.EN]: "Compare with"
+  },
+  currentPeriod: {
+    [Language.NL]: "Huidige periode",
+    [Language.EN]: "Current period"
+  },
+  totalRevenue: {
+    [Language.NL]: "Totale omzet",
+    [Language.EN]: "Total revenue"
+  },
+  months: {
+    [Language.NL]: "maanden",
+    [Language.EN]: "months"
+  },
+  growthPrevPeriod: {
+    [Language.NL]: "Groei t.o.v. vorige periode",
+    [Language.EN]: "Growth vs. previous period"
+  },
+  growthPrevYear: {
+    [Language.NL]: "Groei t.o.v. vorig jaar",
+    [Language.EN]: "Growth vs. last year"
+  },
+  recurringShare: {
+    [Language.NL]: "Aandeel terugkerend",
+    [Language.EN]: "Recurring share"
+  },
+  averageMonthly: {
+    [Language.NL]: "Gem. omzet per maand",
+    [Language.EN]: "Avg. monthly revenue"
+  },
+  largestCustomer: {
+    [Language.NL]: "Grootste relatie",
+    [Language.EN]: "Largest customer"
+  },
+  largestRevenueType: {
+    [Language.NL]: "Grootste omzetsoort",
+    [Language.EN]: "Largest revenue type"
+  },
+  customerAnalysis: {
+    [Language.NL]: "Klantanalyse",
+    [Language.EN]: "Customer analysis"
+  },
+  noCustomerData: {
+    [Language.NL]: "Geen relaties in de data. Koppel de kolom Relatie bij het importeren.",
+    [Language.EN]: "No customers in the data. Map the Customer column when importing."
+  },
+  customers: {
+    [Language.NL]: "Relaties",
+    [Language.EN]: "Customers"
+  },
+  ofRevenue: {
+    [Language.NL]: "van de omzet",
+    [Language.EN]: "of revenue"
+  },
+  ofCustomers: {
+    [Language.NL]: "van de relaties",
+    [Language.EN]: "of customers"
+  },
+  paretoCustomers: {
+    [Language.NL]: "Relaties voor 80% omzet",
+    [Language.EN]: "Customers for 80% of revenue"
+  },
+  concentrationLow: {
+    [Language.NL]: "Lage concentratie",
+    [Language.EN]: "Low concentration"
+  },
+  concentrationModerate: {
+    [Language.NL]: "Gemiddelde concentratie",
+    [Language.EN]: "Moderate concentration"
+  },
+  concentrationHigh: {
+    [Language.NL]: "Hoge concentratie",
+    [Language.EN]: "High concentration"
+  },
+  cumulativeShare: {
+    [Language.NL]: "Cumulatief",
+    [Language.EN]: "Cumulative"
+  },
+  revenue: {
+    [Language.NL]: "Omzet",
+    [Language.EN]: "Revenue"
+  },
+  churnWarnings: {
+    [Language.NL]: "Churn-signalen",
+    [Language.EN]: "Churn warnings"
+  },
+  noChurnWarnings: {
+    [Language.NL]: "Geen relaties met een opvallende daling.",
+    [Language.EN]: "No customers with a notable drop."
+  },
+  churnStopped: {
+    [Language.NL]: "Gestopt",
+    [Language.EN]: "Stopped"
+  },
+  churnDeclined: {
+    [Language.NL]: "Gedaald",
+    [Language.EN]: "Declined"
+  },
+  usualPerMonth: {
+    [Language.NL]: "Gebruikelijk",
+    [Language.EN]: "Usual"
+  },
+  recentPerMonth: {
+    [Language.NL]: "recent",
+    [Language.EN]: "recent"
+  },
+  lastRevenue: {
+    [Language.NL]: "laatste omzet",
+    [Language.EN]: "last revenue"
+  },
+  mrrMovements: {
+    [Language.NL]: "MRR-bewegingen",
+    [Language.EN]: "MRR movements"
+  },
+  periodStart: {
+    [Language.NL]: "Begin",
+    [Language.EN]: "Start"
+  },
+  periodEnd: {
+    [Language.NL]: "Eind",
+    [Language.EN]: "End"
+  },
+  netRetention: {
+    [Language.NL]: "Netto omzetretentie",
+    [Language.EN]: "Net revenue retention"
+  },
+  grossRetention: {
+    [Language.NL]: "Bruto omzetretentie",
+    [Language.EN]: "Gross revenue retention"
+  },
+  newMrr: {
+    [Language.NL]: "Nieuw",
+    [Language.EN]: "New"
+  },
+  expansion: {
+    [Language.NL]: "Uitbreiding",
+    [Language.EN]: "Expansion"
+  },
+  reactivated: {
+    [Language.NL]: "Heractivering",
+    [Language.EN]: "Reactivated"
+  },
+  contraction: {
+    [Language.NL]: "Krimp",
+    [Language.EN]: "Contraction"
+  },
+  churned: {
+    [Language.NL]: "Opgezegd",
+    [Language.EN]: "Churned"
+  },
+  netMovement: {
+    [Language.NL]: "Netto beweging",
+    [Language.EN]: "Net movement"
+  },
+  managementReport: {
+    [Language.NL]: "Managementrapportage",
+    [Language.EN]: "Management report"
+  },
+  generatedOn: {
+    [Language.NL]: "Gegenereerd op",
+    [Language.EN]: "Generated on"
+  },
+  kpiSummary: {
+    [Language.NL]: "Kerncijfers",
+    [Language.EN]: "Key figures"
+  },
+  kpi: {
+    [Language.NL]: "Kengetal",
+    [Language.EN]: "Metric"
+  },
+  monthlyTotalsPerType: {
+    [Language.NL]: "Maandtotalen per omzetsoort",
+    [Language.EN]: "Monthly totals per revenue type"
+  },
+  previousYearColumn: {
+    [Language.NL]: "Vorig jaar",
+    [Language.EN]: "Previous year"
+  },
+  comments: {
+    [Language.NL]: "Opmerkingen",
+    [Language.EN]: "Comments"
+  },
+  page: {
+    [Language.NL]: "Pagina",
+    [Language.EN]: "Page"
+  },
+  generatingReport: {
+    [Language.NL]: "Rapport wordt gemaakt...",
+    [Language.EN]: "Generating report..."
+  },
+  reportFailed: {
+    [Language.NL]: "Het rapport kon niet worden gemaakt.",
+    [Language.EN]: "The report could not be generated."
+  },
+  exportExcel: {
+    [Language.NL]: "Exporteren naar Excel",
+    [Language.EN]: "Export to Excel"
+  },
+  workbookFailed: {
+    [Language.NL]: "Het Excel-bestand kon niet worden gemaakt.",
+    [Language.EN]: "The Excel file could not be generated."
+  },
+  sheetTransactions: {
+    [Language.NL]: "Transacties",
+    [Language.EN]: "Transactions"
+  },
+  sheetPivot: {
+    [Language.NL]: "Draaitabel",
+    [Language.EN]: "Pivot"
+  },
+  sheetAnomalies: {
+    [Language.NL]: "Afwijkingen",
+    [Language.EN]: "Anomalies"
+  },
+  sheetUnmatched: {
+    [Language.NL]: "Niet geclassificeerd",
+    [Language.EN]: "Unmatched"
+  },
+  sheetSettings: {
+    [Language.NL]: "Instellingen",
+    [Language.EN]: "Settings"
+  },
+  sheetLookupRules: {
+    [Language.NL]: "Lookupregels",
+    [Language.EN]: "Lookup rules"
+  },
+  searchTerm: {
+    [Language.NL]: "Zoekterm",
+    [Language.EN]: "Search term"
+  },
+  clearSelection: {
+    [Language.NL]: "Wis selectie",
+    [Language.EN]: "Clear selection"
+  },
+  allClassified: {
+    [Language.NL]: "Alles geclassificeerd!",
+    [Language.EN]: "All classified!"
+  },
+  mainCategory: {
+    [Language.NL]: "Hoofdsoort",
+    [Language.EN]: "Main category"
+  },
+  subCategory: {
+    [Language.NL]: "Subcategorie",
+    [Language.EN]: "Subcategory"
+  },
+  lookupRule: {
+    [Language.NL]: "Lookupregel",
+    [Language.EN]: "Lookup rule"
+  },
+  source: {
+    [Language.NL]: "Bron",
+    [Language.EN]: "Source"
+  },
+  count: {
+    [Language.NL]: "Aantal",
+    [Language.EN]: "Count"
+  },
+  hiddenSources: {
+    [Language.NL]: "Verborgen bronnen",
+    [Language.EN]: "Hidden sources"
+  },
+  yes: {
+    [Language.NL]: "Ja",
+    [Language.EN]: "Yes"
+  },
+  no: {
+    [Language.NL]: "Nee",
+    [Language.EN]: "No"
+  },
+  refreshAnalysis: {
+    [Language.NL]: "Opnieuw analyseren",
+    [Language.EN]: "Refresh analysis"
+  },
+  noInsight: {
+    [Language.NL]: "Nog geen analyse voor deze omzetsoort.",
+    [Language.EN]: "No analysis for this revenue type yet."
+  },
+  keyDrivers: {
+    [Language.NL]: "Belangrijkste oorzaken",
+    [Language.EN]: "Key drivers"
+  },
+  risks: {
+    [Language.NL]: "Risico's",
+    [Language.EN]: "Risks"
+  },
+  recommendedActions: {
+    [Language.NL]: "Aanbevolen acties",
+    [Language.EN]: "Recommended actions"
+  },
+  aiProvider: {
+    [Language.NL]: "AI-aanbieder",
+    [Language.EN]: "AI Provider"
+  },
+  provider: {
+    [Language.NL]: "Aanbieder",
+    [Language.EN]: "Provider"
+  },
+  model: {
+    [Language.NL]: "Model",
+    [Language.EN]: "Model"
+  },
+  endpointUrl: {
+    [Language.NL]: "Endpoint-URL",
+    [Language.EN]: "Endpoint URL"
+  },
+  apiKey: {
+    [Language.NL]: "API-sleutel (optioneel)",
+    [Language.EN]: "API key (optional)"
+  },
+  geminiProviderHint: {
+    [Language.NL]: "Maandcijfers gaan naar Google. Zonder sleutel hier of in de build valt de analyse terug op offline.",
+    [Language.EN]: "Monthly figures are sent to Google. Without a key here or in the build, the analysis falls back to offline."
+  },
+  selfHostedProviderHint: {
+    [Language.NL]: "Eigen server met een OpenAI-compatibele API, zoals Ollama of llama.cpp. De gegevens blijven binnen het netwerk.",
+    [Language.EN]: "Own server with an OpenAI-compatible API, such as Ollama or llama.cpp. Data stays inside the network."
+  },
+  offlineProviderHint: {
+    [Language.NL]: "Vaste rekenregels in de browser: trend, seizoen, volatiliteit en afwijkingen. Er gaat niets naar buiten.",
+    [Language.EN]: "Fixed rules in the browser: trend, seasonality, volatility and anomalies. Nothing leaves the browser."
+  },
+  askYourData: {
+    [Language.NL]: "Vraag het je omzetdata",
+    [Language.EN]: "Ask your revenue data"
+  },
+  chatPlaceholder: {
+    [Language.NL]: "Bijv. waarom daalde Dienstverlening in juli?",
+    [Language.EN]: "E.g. why did Dienstverlening drop in July?"
+  },
+  chatExampleMovers: {
+    [Language.NL]: "Welke omzetsoorten stegen of daalden het meest het laatste kwartaal?",
+    [Language.EN]: "Which revenue types rose or fell most in the last quarter?"
+  },
+  chatExampleCustomers: {
+    [Language.NL]: "Welke klanten droegen dit jaar het meest bij aan de groei?",
+    [Language.EN]: "Which customers drove the growth this year?"
+  },
+  chatExampleAnomalies: {
+    [Language.NL]: "Welke afwijkingen waren er vorige maand en wat is de toelichting?",
+    [Language.EN]: "Which anomalies were there last month and how were they explained?"
+  },
+  calculations: {
+    [Language.NL]: "Berekeningen",
+    [Language.EN]: "Calculations"
+  },
+  noQueryRows: {
+    [Language.NL]: "Geen regels in deze periode.",
+    [Language.EN]: "No rows in this period."
+  },
+  answering: {
+    [Language.NL]: "Bezig met rekenen...",
+    [Language.EN]: "Calculating..."
+  },
+  clearChat: {
+    [Language.NL]: "Gesprek wissen",
+    [Language.EN]: "Clear conversation"
+  },
+  chatFailed: {
+    [Language.NL]: "De vraag kon niet worden beantwoord.",
+    [Language.EN]: "The question could not be answered."
+  }
+};
+
+export const BASELINE_LABELS: Translations = {
+  [AnomalyBaseline.FLAT]: {
+    [Language.NL]: "Gemiddelde per omzetsoort",
+    [Language.EN]: "Mean per revenue type"
+  },
+  [AnomalyBaseline.SAME_MONTH]: {
+    [Language.NL]: "Zelfde maand vorige jaren",
+    [Language.EN]: "Same month in earlier years"
+  },
+  [AnomalyBaseline.STL]: {
+    [Language.NL]: "Trend + seizoen",
+    [Language.EN]: "Trend + seasonality"
+  },
+  [AnomalyBaseline.MEDIAN_MAD]: {
+    [Language.NL]: "Mediaan / MAD",
+    [Language.EN]: "Median / MAD"
+  },
+  [AnomalyBaseline.QUARTILES]: {
+    [Language.NL]: "Kwartielen (Q1-Q3)",
+    [Language.EN]: "Quartiles (Q1-Q3)"
+  },
+  [AnomalyBaseline.PREVIOUS_MONTH]: {
+    [Language.NL]: "Vorige maand",
+    [Language.EN]: "Previous month"
+  },
+  [AnomalyBaseline.PREVIOUS_YEAR]: {
+    [Language.NL]: "Zelfde maand vorig jaar",
+    [Language.EN]: "Same month last year"
+  }
+};
+
+export const METHOD_LABELS: Translations = {
+  [AnomalyMethod.ZSCORE]: {
+    [Language.NL]: "Z-score",
+    [Language.EN]: "Z-score"
+  },
+  [AnomalyMethod.MODIFIED_ZSCORE]: {
+    [Language.NL]: "Gemodificeerde Z-score (MAD)",
+    [Language.EN]: "Modified Z-score (MAD)"
+  },
+  [AnomalyMethod.IQR]: {
+    [Language.NL]: "Interkwartielafstand (IQR)",
+    [Language.EN]: "Interquartile range (IQR)"
+  },
+  [AnomalyMethod.PCT_PREV_MONTH]: {
+    [Language.NL]: "% verandering t.o.v. vorige maand",
+    [Language.EN]: "% change vs. previous month"
+  },
+  [AnomalyMethod.PCT_YOY]: {
+    [Language.NL]: "% verandering t.o.v. vorig jaar",
+    [Language.EN]: "% change vs. same month last year"
   }
 };
 
@@ -211,4 +1100,209 @@ export const THEMES: Record<string, Theme> = {
       accent1: "#FFD11A"
     }
   }
-};
\ No newline at end of file
+};
+
+export const FORECAST_METHOD_LABELS: Translations = {
+  [ForecastMethod.HOLT_WINTERS]: {
+    [Language.NL]: "Holt-Winters (trend + seizoen)",
+    [Language.EN]: "Holt-Winters (trend + season)"
+  },
+  [ForecastMethod.HOLT_LINEAR]: {
+    [Language.NL]: "Lineaire trend (Holt)",
+    [Language.EN]: "Linear trend (Holt)"
+  },
+  [ForecastMethod.RUN_RATE]: {
+    [Language.NL]: "Run-rate (gem. laatste 3 mnd)",
+    [Language.EN]: "Run rate (avg. last 3 months)"
+  }
+};
+
+export const FIELD_LABELS: Translations = {
+  date: {
+    [Language.NL]: "Datum",
+    [Language.EN]: "Date"
+  },
+  amount: {
+    [Language.NL]: "Bedrag",
+    [Language.EN]: "Amount"
+  },
+  description: {
+    [Language.NL]: "Omschrijving",
+    [Language.EN]: "Description"
+  },
+  revenueType: {
+    [Language.NL]: "Omzetsoort",
+    [Language.EN]: "Revenue type"
+  },
+  id: {
+    [Language.NL]: "Boekstuknummer",
+    [Language.EN]: "Document number"
+  },
+  customer: {
+    [Language.NL]: "Relatie",
+    [Language.EN]: "Customer"
+  },
+  ledger: {
+    [Language.NL]: "Grootboek",
+    [Language.EN]: "Ledger account"
+  }
+};
+
+export const ISSUE_LABELS: Translations = {
+  [ImportIssueType.INVALID_DATE]: {
+    [Language.NL]: "Ongeldige datum",
+    [Language.EN]: "Invalid date"
+  },
+  [ImportIssueType.ZERO_AMOUNT]: {
+    [Language.NL]: "Bedrag is 0 of leeg",
+    [Language.EN]: "Amount is 0 or empty"
+  },
+  [ImportIssueType.INVALID_AMOUNT]: {
+    [Language.NL]: "Bedrag niet leesbaar",
+    [Language.EN]: "Unreadable amount"
+  },
+  [ImportIssueType.DUPLICATE_ID]: {
+    [Language.NL]: "Dubbel boekstuknummer (eerste rij)",
+    [Language.EN]: "Duplicate document number (first row)"
+  },
+  [ImportIssueType.FUTURE_DATE]: {
+    [Language.NL]: "Datum in de toekomst",
+    [Language.EN]: "Date in the future"
+  },
+  [ImportIssueType.AMBIGUOUS_AMOUNT]: {
+    [Language.NL]: "Dubbelzinnig scheidingsteken",
+    [Language.EN]: "Ambiguous separator"
+  }
+};
+
+export const MATCH_TYPE_LABELS: Translations = {
+  [RuleMatchType.CONTAINS]: {
+    [Language.NL]: "Bevat",
+    [Language.EN]: "Contains"
+  },
+  [RuleMatchType.WHOLE_WORD]: {
+    [Language.NL]: "Heel woord",
+    [Language.EN]: "Whole word"
+  },
+  [RuleMatchType.PREFIX]: {
+    [Language.NL]: "Begint met",
+    [Language.EN]: "Starts with"
+  },
+  [RuleMatchType.EXACT]: {
+    [Language.NL]: "Exact",
+    [Language.EN]: "Exact"
+  },
+  [RuleMatchType.REGEX]: {
+    [Language.NL]: "Reguliere expressie",
+    [Language.EN]: "Regular expression"
+  }
+};
+
+export const RULE_FIELD_LABELS: Translations = {
+  description: {
+    [Language.NL]: "Omschrijving",
+    [Language.EN]: "Description"
+  },
+  originalCategory: {
+    [Language.NL]: "Oorspronkelijke omzetsoort",
+    [Language.EN]: "Original category"
+  },
+  ledger: {
+    [Language.NL]: "Grootboekrekening",
+    [Language.EN]: "Ledger account"
+  },
+  customer: {
+    [Language.NL]: "Relatie",
+    [Language.EN]: "Customer"
+  }
+};
+
+export const CHART_VIEW_LABELS: Translations = {
+  [ChartView.LINES]: {
+    [Language.NL]: "Lijnen",
+    [Language.EN]: "Lines"
+  },
+  [ChartView.STACKED]: {
+    [Language.NL]: "Gestapeld",
+    [Language.EN]: "Stacked"
+  },
+  [ChartView.STACKED_PERCENT]: {
+    [Language.NL]: "Gestapeld 100%",
+    [Language.EN]: "Stacked 100%"
+  },
+  [ChartView.DONUT]: {
+    [Language.NL]: "Samenstelling",
+    [Language.EN]: "Composition"
+  },
+  [ChartView.WATERFALL]: {
+    [Language.NL]: "Watervaldiagram",
+    [Language.EN]: "Waterfall"
+  }
+};
+
+export const SEVERITY_LABELS: Translations = {
+  LOW: {
+    [Language.NL]: "Laag",
+    [Language.EN]: "Low"
+  },
+  MEDIUM: {
+    [Language.NL]: "Gemiddeld",
+    [Language.EN]: "Medium"
+  },
+  HIGH: {
+    [Language.NL]: "Hoog",
+    [Language.EN]: "High"
+  }
+};
+
+export const COMPARISON_LABELS: Translations = {
+  [ComparisonBasis.PREVIOUS_PERIOD]: {
+    [Language.NL]: "Vorige periode",
+    [Language.EN]: "Previous period"
+  },
+  [ComparisonBasis.PREVIOUS_YEAR]: {
+    [Language.NL]: "Zelfde periode vorig jaar",
+    [Language.EN]: "Same period last year"
+  }
+};
+
+export const PROVIDER_LABELS: Translations = {
+  [InsightProviderType.GEMINI]: {
+    [Language.NL]: "Google Gemini",
+    [Language.EN]: "Google Gemini"
+  },
+  [InsightProviderType.OPENAI_COMPATIBLE]: {
+    [Language.NL]: "Eigen server (OpenAI-compatibel)",
+    [Language.EN]: "Self-hosted (OpenAI-compatible)"
+  },
+  [InsightProviderType.OFFLINE]: {
+    [Language.NL]: "Offline (rekenregels)",
+    [Language.EN]: "Offline (rule-based)"
+  }
+};
+
+export const INSIGHT_STATUS_LABELS: Translations = {
+  queued: {
+    [Language.NL]: "In wachtrij",
+    [Language.EN]: "Queued"
+  },
+  running: {
+    [Language.NL]: "Bezig",
+    [Language.EN]: "Running"
+  },
+  done: {
+    [Language.NL]: "Nieuw",
+    [Language.EN]: "New"
+  },
+  cached: {
+    [Language.NL]: "Uit cache",
+    [Language.EN]: "Cached"
+  },
+  failed: {
+    [Language.NL]: "Mislukt",
+    [Language.EN]: "Failed"
+  }
+};
+
+// Main category whose revenue counts as recurring (MRR/ARR)
+export const RECURRING_REVENUE_TYPE = 'Terugkerende inkomsten';
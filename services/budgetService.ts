@@ -0,0 +1,86 @@
+import { format } from 'date-fns';
+import { FinancialRecord, BudgetEntry, BudgetVariance } from "../types";
+import { parseDateValue, parseAmount } from "../utils";
+
+/**
+ * Reads a budget sheet with one row per month x revenue type.
+ * Columns are recognised by header (Maand/Month, Omzetsoort/Revenue type, Budget/Bedrag)
+ * and default to the template order (month, type, amount) otherwise.
+ */
+export const parseBudgetData = (data: any[][]): BudgetEntry[] => {
+  if (!data || data.length < 2) return [];
+  const headers = data[0].map(h => String(h).toLowerCase().trim());
+  let monthIdx = headers.findIndex(h => ['maand', 'month', 'periode', 'datum', 'date'].some(k => h.includes(k)));
+  let typeIdx = headers.findIndex(h => ['omzetsoort', 'revenue', 'inkomsten', 'categorie', 'category'].some(k => h.includes(k)));
+  let amountIdx = headers.findIndex(h => ['budget', 'bedrag', 'amount', 'target'].some(k => h.includes(k)));
+  if (monthIdx === -1) monthIdx = 0;
+  if (typeIdx === -1) typeIdx = 1;
+  if (amountIdx === -1) amountIdx = 2;
+
+  const totals: Record<string, BudgetEntry> = {};
+  data.slice(1).forEach(row => {
+    const rawMonth = row[monthIdx];
+    // "2024-03" parses as a date, but keep it explicit so no timezone shift moves it a month back
+    const date = typeof rawMonth === 'string' && /^\d{4}-\d{1,2}$/.test(rawMonth.trim())
+      ? new Date(Number(rawMonth.trim().slice(0, 4)), Number(rawMonth.trim().slice(5)) - 1, 1)
+      : parseDateValue(rawMonth);
+    const revenueType = String(row[typeIdx] || '').trim();
+    if (isNaN(date.getTime()) || !revenueType) return;
+
+    const month = format(date, 'yyyy-MM');
+    const key = `${revenueType}|${month}`;
+    if (!totals[key]) totals[key] = { month, revenueType, amount: 0 };
+    totals[key].amount += parseAmount(row[amountIdx]);
+  });
+
+  return Object.values(totals).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+/**
+ * Actual vs. budget per month and revenue type for every month that has a budget.
+ * A variance is flagged when its absolute percentage exceeds `thresholdPct`
+ * (MEDIUM above twice, HIGH above three times the threshold).
+ */
+export const calculateBudgetVariance = (
+  records: FinancialRecord[],
+  budget: BudgetEntry[],
+  thresholdPct: number
+): BudgetVariance[] => {
+  const actuals: Record<string, number> = {};
+  records.forEach(r => {
+    const key = `${r.revenueType}|${format(r.date, 'yyyy-MM')}`;
+    actuals[key] = (actuals[key] || 0) + r.amount;
+  });
+
+  return budget.map(b => {
+    const actual = actuals[`${b.revenueType}|${b.month}`] || 0;
+    const variance = actual - b.amount;
+    const variancePct = b.amount !== 0 ? variance / Math.abs(b.amount) * 100 : undefined;
+
+    let severity: 'LOW' | 'MEDIUM' | 'HIGH' | undefined;
+    if (variancePct !== undefined && Math.abs(variancePct) > thresholdPct) {
+      severity = 'LOW';
+      if (Math.abs(variancePct) > thresholdPct * 3) severity = 'HIGH';
+      else if (Math.abs(variancePct) > thresholdPct * 2) severity = 'MEDIUM';
+    }
+
+    return { month: b.month, revenueType: b.revenueType, actual, budget: b.amount, variance, variancePct, severity };
+  });
+};
+
+// Sums variances into one total per revenue type (e.g. year-to-date); month is the latest month included
+export const summarizeVariance = (variances: BudgetVariance[]): BudgetVariance[] => {
+  const totals: Record<string, BudgetVariance> = {};
+  variances.forEach(v => {
+    if (!totals[v.revenueType]) {
+      totals[v.revenueType] = { month: v.month, revenueType: v.revenueType, actual: 0, budget: 0, variance: 0 };
+    }
+    if (v.month > totals[v.revenueType].month) totals[v.revenueType].month = v.month;
+    totals[v.revenueType].actual += v.actual;
+    totals[v.revenueType].budget += v.budget;
+    totals[v.revenueType].variance += v.variance;
+  });
+  return Object.values(totals)
+    .map(t => ({ ...t, variancePct: t.budget !== 0 ? t.variance / Math.abs(t.budget) * 100 : undefined }))
+    .sort((a, b) => a.revenueType.localeCompare(b.revenueType));
+};
@@ -0,0 +1,109 @@
+import { format, subMonths, parse } from 'date-fns';
+import { FinancialRecord, CustomerAnalysis, CustomerSummary, ChurnWarning } from "../types";
+
+const PARETO_SHARE = 80;
+const CHURN_RECENT_MONTHS = 3;
+const CHURN_BASELINE_MONTHS = 12;
+const CHURN_MIN_ACTIVE_MONTHS = 3; // Months with revenue in the baseline before a customer counts as regular
+const CHURN_DECLINE_PCT = 30;
+
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+const monthsBefore = (month: string, count: number, offset: number = 0): string[] => {
+  const date = parse(month, 'yyyy-MM', new Date());
+  return Array.from({ length: count }, (_, i) => format(subMonths(date, offset + count - 1 - i), 'yyyy-MM'));
+};
+
+/**
+ * Revenue per customer in the analysis window with its concentration: the Pareto curve,
+ * the number of customers behind 80% of the revenue and the Herfindahl index (sum of squared
+ * shares in %, so 10000 is a single customer). Records without a customer are left out and
+ * reported through `coveragePct`.
+ */
+export const analyzeCustomers = (
+  periodRecords: FinancialRecord[], history: FinancialRecord[], periodEnd: Date
+): CustomerAnalysis => {
+  const grouped: Record<string, { total: number; transactions: number; lastDate: Date }> = {};
+  let withCustomer = 0;
+  let total = 0;
+  periodRecords.forEach(r => {
+    total += r.amount;
+    const customer = r.customer?.trim();
+    if (!customer) return;
+    withCustomer += r.amount;
+    if (!grouped[customer]) grouped[customer] = { total: 0, transactions: 0, lastDate: r.date };
+    grouped[customer].total += r.amount;
+    grouped[customer].transactions++;
+    if (r.date > grouped[customer].lastDate) grouped[customer].lastDate = r.date;
+  });
+
+  let cumulative = 0;
+  const customers: CustomerSummary[] = Object.entries(grouped)
+    .sort(([, a], [, b]) => b.total - a.total)
+    .map(([customer, g]) => {
+      const share = withCustomer !== 0 ? g.total / withCustomer * 100 : 0;
+      cumulative += share;
+      return { customer, total: g.total, share, cumulativeShare: cumulative, transactions: g.transactions, lastDate: g.lastDate };
+    });
+
+  const paretoIdx = customers.findIndex(c => c.cumulativeShare >= PARETO_SHARE - 1e-9);
+
+  return {
+    customers,
+    herfindahl: customers.reduce((sum, c) => sum + c.share * c.share, 0),
+    paretoCount: paretoIdx === -1 ? customers.length : paretoIdx + 1,
+    coveragePct: total !== 0 ? withCustomer / total * 100 : 0,
+    churnWarnings: detectChurn(history, periodEnd)
+  };
+};
+
+/**
+ * Early churn warnings: for each regular customer the average monthly revenue of the last
+ * three months up to the end of the window (or the last month with data, if earlier) is set
+ * against the twelve months before. Months without revenue count as zero from the customer's
+ * first month on, so quarterly or yearly billing does not read as a drop.
+ */
+export const detectChurn = (history: FinancialRecord[], periodEnd: Date): ChurnWarning[] => {
+  const withCustomer = history.filter(r => r.customer?.trim() && r.date <= periodEnd);
+  if (withCustomer.length === 0) return [];
+
+  const lastMonth = withCustomer.reduce((max, r) => monthKey(r.date) > max ? monthKey(r.date) : max, '');
+  const recentMonths = monthsBefore(lastMonth, CHURN_RECENT_MONTHS);
+  const baselineMonths = monthsBefore(lastMonth, CHURN_BASELINE_MONTHS, CHURN_RECENT_MONTHS);
+
+  const monthly: Record<string, Record<string, number>> = {};
+  withCustomer.forEach(r => {
+    const customer = r.customer!.trim();
+    const month = monthKey(r.date);
+    if (!monthly[customer]) monthly[customer] = {};
+    monthly[customer][month] = (monthly[customer][month] || 0) + r.amount;
+  });
+
+  const warnings: ChurnWarning[] = [];
+  Object.entries(monthly).forEach(([customer, months]) => {
+    const firstMonth = Object.keys(months).sort()[0];
+    const baseline = baselineMonths.filter(m => m >= firstMonth);
+    const activeMonths = baseline.filter(m => (months[m] || 0) > 0).length;
+    if (activeMonths < CHURN_MIN_ACTIVE_MONTHS) return;
+
+    const baselineMonthly = baseline.reduce((sum, m) => sum + (months[m] || 0), 0) / baseline.length;
+    const recentMonthly = recentMonths.reduce((sum, m) => sum + (months[m] || 0), 0) / recentMonths.length;
+    if (baselineMonthly <= 0) return;
+
+    const changePct = (recentMonthly - baselineMonthly) / baselineMonthly * 100;
+    const stopped = recentMonths.every(m => !months[m]);
+    if (!stopped && changePct > -CHURN_DECLINE_PCT) return;
+
+    warnings.push({
+      customer,
+      kind: stopped ? 'stopped' : 'declined',
+      baselineMonthly,
+      recentMonthly,
+      changePct,
+      lastMonth: Object.keys(months).filter(m => months[m] > 0).sort().pop() || firstMonth
+    });
+  });
+
+  // Largest revenue at risk first
+  return warnings.sort((a, b) => (b.baselineMonthly - b.recentMonthly) - (a.baselineMonthly - a.recentMonthly));
+};
@@ -0,0 +1,143 @@
+import { format, addMonths, parse, differenceInCalendarMonths } from 'date-fns';
+import { MonthlyAggregatedData, RevenueForecast, ForecastMethod, ForecastPoint } from "../types";
+
+const SEASON_LENGTH = 12;
+const MIN_SEASONAL_MONTHS = 2 * SEASON_LENGTH; // Two full cycles to initialise the seasonal indices
+const MIN_TREND_MONTHS = 4;
+const Z_95 = 1.96; // Two-sided 95% prediction interval
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+
+interface FittedModel {
+  sse: number;
+  residuals: number[];
+  project: (h: number) => number; // h = months after the last observation (1-based)
+}
+
+// Additive Holt-Winters (level + trend + 12-month season)
+const fitHoltWinters = (values: number[], alpha: number, beta: number, gamma: number): FittedModel => {
+  const firstYear = values.slice(0, SEASON_LENGTH);
+  const secondYear = values.slice(SEASON_LENGTH, 2 * SEASON_LENGTH);
+  const firstMean = firstYear.reduce((s, v) => s + v, 0) / SEASON_LENGTH;
+  const secondMean = secondYear.reduce((s, v) => s + v, 0) / SEASON_LENGTH;
+
+  let level = firstMean;
+  let trend = (secondMean - firstMean) / SEASON_LENGTH;
+  const season = firstYear.map(v => v - firstMean);
+
+  const residuals: number[] = [];
+  let sse = 0;
+  values.forEach((value, t) => {
+    const s = season[t % SEASON_LENGTH];
+    const predicted = level + trend + s;
+    if (t >= SEASON_LENGTH) {
+      residuals.push(value - predicted);
+      sse += Math.pow(value - predicted, 2);
+    }
+    const prevLevel = level;
+    level = alpha * (value - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    season[t % SEASON_LENGTH] = gamma * (value - level) + (1 - gamma) * s;
+  });
+
+  const n = values.length;
+  return { sse, residuals, project: h => level + h * trend + season[(n + h - 1) % SEASON_LENGTH] };
+};
+
+// Holt's linear trend (double exponential smoothing)
+const fitHoltLinear = (values: number[], alpha: number, beta: number): FittedModel => {
+  let level = values[0];
+  let trend = values[1] - values[0];
+
+  const residuals: number[] = [];
+  let sse = 0;
+  values.slice(1).forEach(value => {
+    const predicted = level + trend;
+    residuals.push(value - predicted);
+    sse += Math.pow(value - predicted, 2);
+    const prevLevel = level;
+    level = alpha * value + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+  });
+
+  return { sse, residuals, project: h => level + h * trend };
+};
+
+// Mean of the last three months, for series too short to estimate a trend
+const fitRunRate = (values: number[]): FittedModel => {
+  const recent = values.slice(-3);
+  const rate = recent.reduce((s, v) => s + v, 0) / recent.length;
+  const residuals = values.map(v => v - rate);
+  return { sse: residuals.reduce((s, r) => s + r * r, 0), residuals, project: () => rate };
+};
+
+// Grid search on the smoothing parameters, lowest in-sample one-step-ahead SSE wins
+const selectModel = (values: number[]): { method: ForecastMethod; model: FittedModel } => {
+  if (values.length >= MIN_SEASONAL_MONTHS) {
+    let best: FittedModel | null = null;
+    SMOOTHING_GRID.forEach(alpha => SMOOTHING_GRID.forEach(beta => SMOOTHING_GRID.forEach(gamma => {
+      const model = fitHoltWinters(values, alpha, beta, gamma);
+      if (!best || model.sse < best.sse) best = model;
+    })));
+    return { method: ForecastMethod.HOLT_WINTERS, model: best! };
+  }
+  if (values.length >= MIN_TREND_MONTHS) {
+    let best: FittedModel | null = null;
+    SMOOTHING_GRID.forEach(alpha => SMOOTHING_GRID.forEach(beta => {
+      const model = fitHoltLinear(values, alpha, beta);
+      if (!best || model.sse < best.sse) best = model;
+    }));
+    return { method: ForecastMethod.HOLT_LINEAR, model: best! };
+  }
+  return { method: ForecastMethod.RUN_RATE, model: fitRunRate(values) };
+};
+
+/**
+ * Projects each revenue type `horizon` months beyond its last month of data.
+ * The monthly totals are zero-filled between the first and last month of the dataset,
+ * so a quiet month counts as a month without revenue. The prediction interval widens
+ * with the square root of the horizon and is clipped at zero. The interval of the horizon
+ * total adds up the monthly variances (sigma² · h), treating the monthly errors as independent.
+ */
+export const forecastRevenue = (aggregates: MonthlyAggregatedData[], horizon: number): RevenueForecast[] => {
+  if (aggregates.length === 0 || horizon <= 0) return [];
+
+  const lastMonth = aggregates.reduce((max, a) => a.month > max ? a.month : max, aggregates[0].month);
+  const lastDate = parse(lastMonth, 'yyyy-MM', new Date());
+
+  const byType: Record<string, Record<string, number>> = {};
+  aggregates.forEach(a => {
+    if (!byType[a.revenueType]) byType[a.revenueType] = {};
+    byType[a.revenueType][a.month] = (byType[a.revenueType][a.month] || 0) + a.amount;
+  });
+
+  return Object.keys(byType).sort().map(revenueType => {
+    const months = Object.keys(byType[revenueType]).sort();
+    const firstDate = parse(months[0], 'yyyy-MM', new Date());
+    const length = differenceInCalendarMonths(lastDate, firstDate) + 1;
+    const values = Array.from({ length }, (_, i) => byType[revenueType][format(addMonths(firstDate, i), 'yyyy-MM')] || 0);
+
+    const { method, model } = selectModel(values);
+    const sigma = model.residuals.length > 1
+      ? Math.sqrt(model.residuals.reduce((s, r) => s + r * r, 0) / (model.residuals.length - 1))
+      : 0;
+
+    const points: ForecastPoint[] = Array.from({ length: horizon }, (_, i) => {
+      const h = i + 1;
+      const forecast = Math.max(0, model.project(h));
+      const margin = Z_95 * sigma * Math.sqrt(h);
+      return {
+        month: format(addMonths(lastDate, h), 'yyyy-MM'),
+        forecast,
+        lower: Math.max(0, forecast - margin),
+        upper: forecast + margin
+      };
+    });
+
+    const total = points.reduce((sum, p) => sum + p.forecast, 0);
+    const totalMargin = Z_95 * sigma * Math.sqrt(horizon * (horizon + 1) / 2); // sqrt of sum h, h = 1..horizon
+    return {
+      revenueType, method, lastActualMonth: lastMonth, points,
+      total: { forecast: total, lower: Math.max(0, total - totalMargin), upper: total + totalMargin }
+    };
+  });
+};
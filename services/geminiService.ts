@@ -1,73 +1,357 @@
-import { GoogleGenAI } from "@google/genai";
-import { FinancialRecord, AIInsight, Language } from "../types";
+import { format, parse, subMonths, eachMonthOfInterval } from 'date-fns';
+import {
+  FinancialRecord, AIInsight, Language, LookupRule, CategorySuggestion, Anomaly, InsightContext, InsightTrend,
+  ChatMessage, RevenueQuery
+} from "../types";
+import { aggregateMonthly, calculateGrowth, hashString } from "../utils";
+import { InsightProvider, JsonObject, asJsonObject } from "./insightProviderService";
+import { withRetry, isQuotaError } from "./rateLimitService";
+import {
+  RevenueDataset, DatasetCatalog, describeDataset, parseRevenueQuery, runRevenueQuery, planQueries, summarizeResults
+} from "./revenueQueryService";
 
-const API_KEY = process.env.API_KEY || ''; 
+const INSIGHT_MONTHS = 36;
+const STABLE_BAND_PCT = 5;
 
-// Initialize GenAI
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-export const generateFinancialInsight = async (
-  revenueType: string, 
-  records: FinancialRecord[], 
-  lang: Language
-): Promise<AIInsight> => {
-  
-  // Guard clause if no key is present (demo mode fallback)
-  if (!API_KEY) {
+/**
+ * Monthly totals of one revenue type with the same month a year earlier, plus the
+ * growth, the direction of the last quarter and the anomalies found in the series.
+ */
+export const buildInsightContext = (revenueType: string, records: FinancialRecord[], anomalies: Anomaly[]): InsightContext => {
+  const totals = new Map(aggregateMonthly(records).map(a => [a.month, a.amount]));
+  const monthKeys = Array.from(totals.keys());
+  const months = monthKeys.length === 0 ? [] : eachMonthOfInterval({
+    start: parse(monthKeys[0], 'yyyy-MM', new Date()),
+    end: parse(monthKeys[monthKeys.length - 1], 'yyyy-MM', new Date())
+  }).map(date => {
+    const month = format(date, 'yyyy-MM');
+    const prevMonth = format(subMonths(date, 12), 'yyyy-MM');
     return {
-      revenueType,
-      insight: lang === Language.NL 
-        ? "AI-sleutel ontbreekt. Dit is een gesimuleerd inzicht gebaseerd op de omzettrend."
-        : "AI key missing. This is a simulated insight based on the revenue trend."
+      month,
+      amount: totals.get(month) || 0,
+      prevYearAmount: prevMonth >= monthKeys[0] ? totals.get(prevMonth) || 0 : undefined
     };
-  }
+  }).slice(-INSIGHT_MONTHS);
 
-  // Sort records by date ascending
-  const sorted = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
-  
-  // Prepare a summarization of the last 6 points for context
-  const recentData = sorted.slice(-6).map(r => `${r.date.toISOString().split('T')[0]}: ${r.amount}`).join(', ');
-
-  const promptNL = `
-    Analyseer deze omzetreeks voor '${revenueType}': [${recentData}].
-    Geef een zakelijke, feitelijke samenvatting van de trend (groei/krimp) of anomalie.
-    Focus op of de omzet stabiel is, groeit of daalt.
-    Maximaal 2 zinnen. Maximaal 15 woorden. Geen introductie.
-  `;
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+  const comparable = months.slice(-12).filter(m => m.prevYearAmount !== undefined);
+  const growthPct = comparable.length > 0
+    ? calculateGrowth(sum(comparable.map(m => m.amount)), sum(comparable.map(m => m.prevYearAmount || 0)))
+    : undefined;
+  const quarterChangePct = months.length >= 6
+    ? calculateGrowth(sum(months.slice(-3).map(m => m.amount)), sum(months.slice(-6, -3).map(m => m.amount)))
+    : undefined;
+  const trend: InsightTrend = quarterChangePct === undefined || Math.abs(quarterChangePct) < STABLE_BAND_PCT
+    ? 'stable'
+    : quarterChangePct > 0 ? 'up' : 'down';
 
-  const promptEN = `
-    Analyze this revenue series for '${revenueType}': [${recentData}].
-    Provide a professional, factual summary of the trend (growth/decline) or anomaly.
-    Focus on whether revenue is stable, growing, or declining.
-    Max 2 sentences. Max 15 words. No introduction.
-  `;
+  return {
+    revenueType,
+    months,
+    growthPct,
+    quarterChangePct,
+    trend,
+    anomalies: anomalies
+      .filter(a => a.revenueType === revenueType && months.length > 0 && format(a.date, 'yyyy-MM') >= months[0].month)
+      .map(a => ({
+        month: format(a.date, 'yyyy-MM'),
+        amount: Math.round(a.amount),
+        expectedAmount: Math.round(a.expectedAmount),
+        severity: a.severity,
+        description: a.description
+      }))
+  };
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: lang === Language.NL ? promptNL : promptEN,
-    });
+// Insights by input hash, so switching language or selection back and forth costs no calls
+const insightCache = new Map<string, AIInsight>();
 
-    const text = response.text || (lang === Language.NL ? "Geen analyse beschikbaar." : "No analysis available.");
-    return {
-      revenueType,
-      insight: text.trim()
-    };
+// Same series, anomalies, language and model give the same hash
+export const getInsightInputHash = (context: InsightContext, lang: Language, provider: InsightProvider): string =>
+  hashString(JSON.stringify([context, lang, provider.type, provider.model]));
+
+export const getCachedInsight = (hash: string): AIInsight | undefined => insightCache.get(hash);
+
+/**
+ * Structured analysis of one revenue type by the selected provider: trend, year on year growth,
+ * drivers, risks and recommended actions, based on the monthly totals, year on year figures
+ * and detected anomalies. Rate limits and server errors are retried with backoff; a result
+ * that still fails comes back marked as failed and is not cached.
+ */
+export const generateFinancialInsight = async (
+  context: InsightContext,
+  lang: Language,
+  provider: InsightProvider,
+  useCache = true
+): Promise<AIInsight> => {
+  const inputHash = getInsightInputHash(context, lang, provider);
+  const cached = insightCache.get(inputHash);
+  if (useCache && cached) return cached;
+
+  try {
+    const insight = { ...(await withRetry(() => provider.generateInsight(context, lang))), inputHash };
+    insightCache.set(inputHash, insight);
+    return insight;
   } catch (error: any) {
-    console.error("Gemini API Error:", error);
+    console.error("AI provider error:", error);
     
     let errorMessage = lang === Language.NL ? "Kan geen AI-analyse genereren." : "Unable to generate AI analysis.";
     
     // Handle Quota Exceeded (429) specifically
-    if (error?.status === 429 || error?.code === 429 || JSON.stringify(error).includes('429')) {
+    if (isQuotaError(error)) {
       errorMessage = lang === Language.NL 
         ? "AI-limiet bereikt. Probeer het later opnieuw." 
         : "AI quota exceeded. Please try again later.";
     }
 
     return {
-      revenueType,
-      insight: errorMessage
+      revenueType: context.revenueType,
+      insight: errorMessage,
+      failed: true
     };
   }
-};
\ No newline at end of file
+};
+
+const MAX_DESCRIPTIONS = 60;
+const MIN_TOKEN_LENGTH = 3;
+
+type SuggestionAnswer = JsonObject & { line: number; mainCategory: string; subCategory: string };
+
+const isSuggestionAnswer = (p: JsonObject): p is SuggestionAnswer =>
+  typeof p.line === 'number' && typeof p.mainCategory === 'string' && typeof p.subCategory === 'string';
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length >= MIN_TOKEN_LENGTH && !/^\d+$/.test(t));
+
+// Two tokens are similar when equal, or when one is a prefix of the other ("licentie"/"licenties")
+const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const [short, long] = a.length < b.length ? [a, b] : [b, a];
+  return short.length >= 4 && long.startsWith(short) ? short.length / long.length : 0;
+};
+
+/**
+ * Fallback without an API key: scores each description against the search terms and
+ * category names of the existing rules. The score per category is the best token match,
+ * weighted by how much of the description the matched tokens cover.
+ */
+const suggestBySimilarity = (descriptions: string[], rules: LookupRule[]): CategorySuggestion[] => {
+  const categories = new Map<string, { mainCategory: string; subCategory: string; tokens: string[] }>();
+  rules.forEach(rule => {
+    const key = `${rule.mainCategory}|${rule.subCategory}`;
+    const entry = categories.get(key) || { mainCategory: rule.mainCategory, subCategory: rule.subCategory, tokens: [] };
+    entry.tokens.push(...tokenize(`${rule.searchTerm} ${rule.subCategory}`));
+    categories.set(key, entry);
+  });
+
+  return descriptions.flatMap(description => {
+    const tokens = tokenize(description);
+    if (tokens.length === 0) return [];
+
+    let best: CategorySuggestion | null = null;
+    categories.forEach(category => {
+      const scores = tokens.map(t => Math.max(0, ...category.tokens.map(c => tokenSimilarity(t, c))));
+      const strongest = Math.max(...scores);
+      const coverage = scores.filter(s => s > 0).length / tokens.length;
+      const confidence = strongest * (0.6 + 0.4 * coverage);
+      if (confidence > 0 && (!best || confidence > best.confidence)) {
+        best = { description, mainCategory: category.mainCategory, subCategory: category.subCategory, confidence, source: 'similarity' };
+      }
+    });
+    return best ? [best] : [];
+  });
+};
+
+/**
+ * Proposes a main category, subcategory and confidence per unmatched description, choosing
+ * from the categories of the current rule set. With the offline provider, or when the call fails,
+ * the proposals come from token similarity to the existing rules.
+ */
+export const suggestCategories = async (
+  descriptions: string[],
+  rules: LookupRule[],
+  lang: Language,
+  provider: InsightProvider
+): Promise<CategorySuggestion[]> => {
+  const batch = descriptions.slice(0, MAX_DESCRIPTIONS);
+  if (batch.length === 0) return [];
+  const completeJson = provider.completeJson;
+  if (!completeJson) return suggestBySimilarity(batch, rules);
+
+  const categories = Array.from(new Set(rules.map(r => `${r.mainCategory} > ${r.subCategory}`)));
+  const prompt = `
+    ${lang === Language.NL
+      ? 'Classificeer elke omzetregel in precies een van deze categorieën (Hoofdsoort > Subcategorie).'
+      : 'Classify each revenue line into exactly one of these categories (Main category > Subcategory).'}
+    Categories:
+    ${categories.map(c => `- ${c}`).join('\n    ')}
+
+    Lines:
+    ${batch.map((d, i) => `${i + 1}. ${d}`).join('\n    ')}
+
+    Return one object per line with the line number, mainCategory, subCategory and a confidence between 0 and 1.
+    Use a low confidence when no category fits well.
+  `;
+
+  try {
+    // Wrapped in an object: OpenAI-compatible JSON mode only returns objects
+    const answer = await withRetry(() => completeJson(prompt, {
+      type: 'object',
+      properties: {
+        suggestions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              line: { type: 'integer' },
+              mainCategory: { type: 'string' },
+              subCategory: { type: 'string' },
+              confidence: { type: 'number' }
+            },
+            required: ['line', 'mainCategory', 'subCategory', 'confidence']
+          }
+        }
+      },
+      required: ['suggestions']
+    }));
+
+    const { suggestions } = asJsonObject(answer);
+    const known = new Set(rules.map(r => `${r.mainCategory}|${r.subCategory}`));
+    return (Array.isArray(suggestions) ? suggestions : [])
+      .map(asJsonObject)
+      .filter(isSuggestionAnswer)
+      .filter(p => batch[p.line - 1] !== undefined && known.has(`${p.mainCategory}|${p.subCategory}`))
+      .map(p => ({
+        description: batch[p.line - 1],
+        mainCategory: p.mainCategory,
+        subCategory: p.subCategory,
+        confidence: Math.min(1, Math.max(0, Number(p.confidence) || 0)),
+        source: 'ai' as const
+      }));
+  } catch (error) {
+    console.error("AI provider error:", error);
+    return suggestBySimilarity(batch, rules);
+  }
+};
+
+const MAX_CHAT_QUERIES = 4;
+const CHAT_HISTORY_MESSAGES = 4;
+
+const chatHistoryText = (history: ChatMessage[]) =>
+  history.slice(-CHAT_HISTORY_MESSAGES).map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`).join('\n    ') || 'none';
+
+// Lets the model choose from the local calculations; an unusable plan falls back to the local planner
+const planRevenueQueries = async (
+  question: string,
+  history: ChatMessage[],
+  catalog: DatasetCatalog,
+  completeJson: NonNullable<InsightProvider['completeJson']>
+): Promise<RevenueQuery[]> => {
+  const prompt = `
+    You translate a question about revenue data into calculations that are run locally.
+    Data covers ${catalog.firstMonth} to ${catalog.lastMonth}.
+    Revenue types: ${JSON.stringify(catalog.revenueTypes)}
+    Subcategories: ${JSON.stringify(catalog.subCategories)}
+    Largest customers: ${JSON.stringify(catalog.customers)}
+
+    Calculations (months are YYYY-MM and inclusive):
+    - totals: revenue grouped by month, quarter, year, revenueType, subCategory or customer; optional start, end, revenueType, customer
+    - topMovers: largest changes per revenueType, subCategory or customer between start..end and compareStart..compareEnd
+      (default: the equally long period just before); optional revenueType and limit
+    - anomalies: detected anomalies with the comments users left on them; optional start, end, revenueType
+
+    Use the exact names from the lists. Choose up to ${MAX_CHAT_QUERIES} calculations that together answer the question.
+    Earlier conversation:
+    ${chatHistoryText(history)}
+    Question: ${question}
+  `;
+
+  try {
+    const answer = await withRetry(() => completeJson(prompt, {
+      type: 'object',
+      properties: {
+        queries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', enum: ['totals', 'topMovers', 'anomalies'] },
+              groupBy: { type: 'string', enum: ['month', 'quarter', 'year', 'revenueType', 'subCategory', 'customer'] },
+              dimension: { type: 'string', enum: ['revenueType', 'subCategory', 'customer'] },
+              start: { type: 'string' },
+              end: { type: 'string' },
+              compareStart: { type: 'string' },
+              compareEnd: { type: 'string' },
+              revenueType: { type: 'string' },
+              customer: { type: 'string' },
+              limit: { type: 'integer' }
+            },
+            required: ['name']
+          }
+        }
+      },
+      required: ['queries']
+    }));
+    const { queries: proposed } = asJsonObject(answer);
+    const queries = (Array.isArray(proposed) ? proposed : [])
+      .map(raw => parseRevenueQuery(raw, catalog))
+      .filter((q): q is RevenueQuery => q !== null)
+      .slice(0, MAX_CHAT_QUERIES);
+    return queries.length > 0 ? queries : planQueries(question, catalog);
+  } catch (error) {
+    console.error("AI provider error:", error);
+    return planQueries(question, catalog);
+  }
+};
+
+/**
+ * Answers a question about the revenue data. The numbers come from local calculations
+ * (totals, top movers, anomalies with comments) that the model selects; the model then only
+ * explains those results. Without a model the calculations are chosen by keyword and
+ * summarised as plain sentences.
+ */
+export const answerRevenueQuestion = async (
+  question: string,
+  history: ChatMessage[],
+  dataset: RevenueDataset,
+  lang: Language,
+  provider: InsightProvider
+): Promise<ChatMessage> => {
+  const catalog = describeDataset(dataset.records);
+  const completeJson = provider.completeJson;
+  const queries = completeJson
+    ? await planRevenueQueries(question, history, catalog, completeJson)
+    : planQueries(question, catalog);
+  const results = queries.map(query => runRevenueQuery(query, dataset, lang));
+  const message = (text: string): ChatMessage => ({ id: Math.random().toString(36).substr(2, 9), role: 'assistant', text, results });
+
+  if (!completeJson) return message(summarizeResults(results, lang));
+
+  const prompt = `
+    ${lang === Language.NL
+      ? 'Je bent een financieel analist. Beantwoord de vraag in het Nederlands.'
+      : 'You are a financial analyst. Answer the question in English.'}
+    Use only the calculation results below; they are exact. Quote amounts as given, in EUR, and do not calculate new totals.
+    When the results do not answer the question, say so. At most 5 sentences, no introduction.
+    Earlier conversation:
+    ${chatHistoryText(history)}
+    Question: ${question}
+    Calculation results:
+    ${JSON.stringify(results.map(r => ({ calculation: r.label, total: r.total, rows: r.rows })))}
+  `;
+
+  try {
+    const answer = await withRetry(() => completeJson(prompt, {
+      type: 'object',
+      properties: { answer: { type: 'string' } },
+      required: ['answer']
+    }));
+    const { answer: reply } = asJsonObject(answer);
+    const text = typeof reply === 'string' ? reply.trim() : '';
+    return message(text || summarizeResults(results, lang));
+  } catch (error: any) {
+    console.error("AI provider error:", error);
+    // The figures are there regardless; only the narrative is missing
+    return message(summarizeResults(results, lang));
+  }
+};
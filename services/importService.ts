@@ -0,0 +1,65 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { FinancialRecord, UploadSheet } from "../types";
+
+const readAs = (file: File, mode: 'text' | 'binary'): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    if (mode === 'text') reader.readAsText(file);
+    else reader.readAsBinaryString(file);
+  });
+
+/**
+ * Reads a CSV or workbook into one entry per non-empty sheet. The source tag is the file name,
+ * plus the sheet name when the workbook has more than one sheet.
+ */
+export const readUploadFile = async (file: File): Promise<UploadSheet[]> => {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    const text = await readAs(file, 'text');
+    const results = Papa.parse(text, { skipEmptyLines: true });
+    return [{ fileName: file.name, sheetName: '', source: file.name, data: results.data as any[][] }];
+  }
+
+  const workbook = XLSX.read(await readAs(file, 'binary'), { type: 'binary' });
+  return workbook.SheetNames
+    .map(sheetName => ({
+      fileName: file.name,
+      sheetName,
+      source: workbook.SheetNames.length > 1 ? `${file.name} - ${sheetName}` : file.name,
+      data: XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, blankrows: false }) as any[][]
+    }))
+    .filter(sheet => sheet.data.length > 0);
+};
+
+// Identity of a booking across exports: Boekstuknummer + date + amount
+const recordKey = (r: FinancialRecord) => `${r.id}|${format(r.date, 'yyyy-MM-dd')}|${r.amount.toFixed(2)}`;
+
+/**
+ * Appends the records of one source to the dataset. Records already imported from this source
+ * are replaced (a re-upload), and incoming records that another source already holds are
+ * dropped. Identical lines within the same source are kept, since one invoice can have them.
+ */
+export const mergeRecords = (
+  existing: FinancialRecord[],
+  incoming: FinancialRecord[],
+  source: string
+): { records: FinancialRecord[]; duplicatesRemoved: number } => {
+  const kept = existing.filter(r => r.source !== source);
+  const existingKeys = new Set(kept.map(recordKey));
+
+  const added = incoming.filter(r => !existingKeys.has(recordKey(r))).map(r => ({ ...r, source }));
+  return { records: [...kept, ...added], duplicatesRemoved: incoming.length - added.length };
+};
+
+// Source tags with their record count, in import order
+export const summarizeSources = (records: FinancialRecord[]): { source: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  records.forEach(r => {
+    const source = r.source || '-';
+    counts.set(source, (counts.get(source) || 0) + 1);
+  });
+  return Array.from(counts.entries()).map(([source, count]) => ({ source, count }));
+};
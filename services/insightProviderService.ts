@@ -0,0 +1,325 @@
+import { GoogleGenAI } from "@google/genai";
+import { format, parse } from 'date-fns';
+import { nl, enUS } from 'date-fns/locale';
+import { AIInsight, InsightContext, InsightProviderSettings, InsightProviderType, InsightTrend, Language } from "../types";
+import { formatMonth } from "../utils";
+
+const STORAGE_KEY = 'omzet-trendanalyse.insightProvider';
+
+export type JsonSchema = Record<string, unknown>;
+export type JsonObject = Record<string, unknown>;
+
+// Model output is untrusted: anything but a plain object reads as an empty one
+export const asJsonObject = (value: unknown): JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : {};
+
+export interface InsightProvider {
+  type: InsightProviderType;
+  model: string; // Part of the insight cache key
+  // Structured analysis of one revenue type
+  generateInsight: (context: InsightContext, lang: Language) => Promise<AIInsight>;
+  // Free prompt answered with JSON that follows the schema; absent when there is no model to ask
+  completeJson?: (prompt: string, schema: JsonSchema) => Promise<unknown>;
+}
+
+export const DEFAULT_MODELS: Record<InsightProviderType, string> = {
+  [InsightProviderType.GEMINI]: 'gemini-2.5-flash',
+  [InsightProviderType.OPENAI_COMPATIBLE]: 'llama3.1',
+  [InsightProviderType.OFFLINE]: ''
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: InsightProviderSettings = {
+  provider: InsightProviderType.GEMINI,
+  model: DEFAULT_MODELS[InsightProviderType.GEMINI],
+  baseUrl: 'http://localhost:11434/v1',
+  apiKeys: {
+    [InsightProviderType.GEMINI]: '',
+    [InsightProviderType.OPENAI_COMPATIBLE]: '',
+    [InsightProviderType.OFFLINE]: ''
+  }
+};
+
+// Provider settings belong to this machine, not to a workspace: they stay out of workspace exports
+export const loadProviderSettings = (): InsightProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PROVIDER_SETTINGS;
+    const { apiKey, ...parsed } = JSON.parse(stored);
+    const settings: InsightProviderSettings = { ...DEFAULT_PROVIDER_SETTINGS, ...parsed };
+    // Settings saved before keys were kept per provider had one shared key: it belongs to the provider it was saved with
+    const apiKeys = { ...DEFAULT_PROVIDER_SETTINGS.apiKeys, ...(apiKey ? { [settings.provider]: apiKey } : {}), ...parsed.apiKeys };
+    return { ...settings, apiKeys };
+  } catch (error) {
+    console.error("Could not read AI provider settings:", error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: InsightProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- Model backed providers: same prompt, different transport ---
+
+const insightSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    trend: { type: 'string', enum: ['up', 'down', 'stable'] },
+    growthPct: { type: 'number' },
+    drivers: { type: 'array', items: { type: 'string' } },
+    risks: { type: 'array', items: { type: 'string' } },
+    actions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['summary', 'trend', 'drivers', 'risks', 'actions']
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(v => typeof v === 'string' && v.trim()).map(v => v.trim()).slice(0, 5) : [];
+
+const insightPrompt = (context: InsightContext, lang: Language) => `
+    ${lang === Language.NL
+      ? `Je bent een financieel analist. Analyseer de omzet van de omzetsoort '${context.revenueType}'. Antwoord in het Nederlands.`
+      : `You are a financial analyst. Analyse the revenue of the revenue type '${context.revenueType}'. Answer in English.`}
+    Monthly totals in EUR (prevYearAmount = same month one year earlier):
+    ${JSON.stringify(context.months)}
+    Year on year growth over the last twelve months: ${context.growthPct === undefined ? 'unknown' : `${context.growthPct.toFixed(1)}%`}
+    Direction of the last quarter against the quarter before: ${context.trend}
+    Detected anomalies: ${context.anomalies.length > 0 ? JSON.stringify(context.anomalies) : 'none'}
+
+    Return:
+    - summary: a factual summary of at most 2 sentences, no introduction
+    - trend: up, down or stable
+    - growthPct: the year on year growth in %, use the figure above when it is known
+    - drivers: up to 3 key drivers visible in the figures (seasonality, step changes, anomalies)
+    - risks: up to 3 risks
+    - actions: up to 3 recommended actions
+    Only use the figures given; do not invent customers or events.
+  `;
+
+const createModelProvider = (
+  type: InsightProviderType,
+  model: string,
+  completeJson: (prompt: string, schema: JsonSchema) => Promise<unknown>
+): InsightProvider => ({
+  type,
+  model,
+  completeJson,
+  generateInsight: async (context, lang) => {
+    const parsed = asJsonObject(await completeJson(insightPrompt(context, lang), insightSchema));
+    const trend = (['up', 'down', 'stable'] as unknown[]).includes(parsed.trend) ? parsed.trend as InsightTrend : context.trend;
+    return {
+      revenueType: context.revenueType,
+      insight: typeof parsed.summary === 'string' && parsed.summary.trim()
+        ? parsed.summary.trim()
+        : (lang === Language.NL ? "Geen analyse beschikbaar." : "No analysis available."),
+      trend,
+      growthPct: typeof parsed.growthPct === 'number' && Number.isFinite(parsed.growthPct) ? parsed.growthPct : context.growthPct,
+      drivers: toStringList(parsed.drivers),
+      risks: toStringList(parsed.risks),
+      actions: toStringList(parsed.actions)
+    };
+  }
+});
+
+const createGeminiProvider = (apiKey: string, model: string): InsightProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return createModelProvider(InsightProviderType.GEMINI, model, async (prompt, schema) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseJsonSchema: schema
+      }
+    });
+    return JSON.parse(response.text || 'null');
+  });
+};
+
+// Chat completions as served by Ollama, llama.cpp, vLLM and the like
+const createOpenAiCompatibleProvider = (settings: InsightProviderSettings, model: string): InsightProvider =>
+  createModelProvider(InsightProviderType.OPENAI_COMPATIBLE, model, async (prompt, schema) => {
+    const apiKey = settings.apiKeys[InsightProviderType.OPENAI_COMPATIBLE];
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: `Answer with a single JSON value that follows this JSON schema: ${JSON.stringify(schema)}` },
+          { role: 'user', content: prompt }
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2
+      })
+    });
+    if (!response.ok) {
+      throw Object.assign(new Error(`${response.status} ${response.statusText}`), { status: response.status });
+    }
+    const body = await response.json();
+    // Smaller local models like to wrap their JSON in a code fence
+    const content = String(body?.choices?.[0]?.message?.content || 'null').replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+    return JSON.parse(content);
+  });
+
+// --- Offline provider: a statistical narrative from the same context ---
+
+const STEP_CHANGE_PCT = 30;
+const SEASONAL_PEAK_FACTOR = 1.3;
+const VOLATILE_CV = 0.35;
+
+const formatPct = (pct: number) => `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+
+/**
+ * Trend, growth, drivers, risks and actions derived with fixed rules from the monthly
+ * totals: seasonal peaks, the sharpest month on month step, volatility and the anomalies.
+ */
+export const describeOffline = (context: InsightContext, lang: Language): AIInsight => {
+  const isNL = lang === Language.NL;
+  const { months, growthPct, quarterChangePct, trend, anomalies } = context;
+  const lastYear = months.slice(-12);
+  const mean = lastYear.reduce((sum, m) => sum + m.amount, 0) / Math.max(1, lastYear.length);
+  const toDate = (month: string) => parse(month, 'yyyy-MM', new Date());
+
+  const trendText = {
+    up: isNL ? 'steeg' : 'rose',
+    down: isNL ? 'daalde' : 'fell',
+    stable: isNL ? 'bleef stabiel' : 'was stable'
+  }[trend];
+  const summary = [
+    isNL
+      ? `De omzet ${trendText} in het laatste kwartaal${quarterChangePct === undefined ? '' : ` (${formatPct(quarterChangePct)} t.o.v. het kwartaal ervoor)`}.`
+      : `Revenue ${trendText} in the last quarter${quarterChangePct === undefined ? '' : ` (${formatPct(quarterChangePct)} against the quarter before)`}.`,
+    growthPct === undefined ? '' : isNL
+      ? `Over de laatste twaalf maanden ${formatPct(growthPct)} ten opzichte van een jaar eerder.`
+      : `Over the last twelve months ${formatPct(growthPct)} against a year earlier.`
+  ].filter(Boolean).join(' ');
+
+  const drivers: string[] = [];
+  const risks: string[] = [];
+  const actions: string[] = [];
+
+  // Seasonality needs two full years to tell a peak from a one-off
+  if (months.length >= 24) {
+    const byCalendarMonth: number[][] = Array.from({ length: 12 }, () => []);
+    months.forEach(m => byCalendarMonth[toDate(m.month).getMonth()].push(m.amount));
+    const averages = byCalendarMonth.map(values => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length));
+    const overall = averages.reduce((sum, v) => sum + v, 0) / 12;
+    const peak = averages.indexOf(Math.max(...averages));
+    if (overall > 0 && averages[peak] > overall * SEASONAL_PEAK_FACTOR) {
+      const name = format(new Date(2000, peak, 1), 'MMMM', { locale: isNL ? nl : enUS });
+      drivers.push(isNL
+        ? `Seizoenspatroon met een piek in ${name} (${formatPct((averages[peak] / overall - 1) * 100)} boven het maandgemiddelde)`
+        : `Seasonal pattern peaking in ${name} (${formatPct((averages[peak] / overall - 1) * 100)} above the monthly average)`);
+    }
+  }
+
+  const steps = lastYear.slice(1).map((m, i) => ({ month: m.month, change: m.amount - lastYear[i].amount }));
+  const sharpest = steps.sort((a, b) => Math.abs(b.change) - Math.abs(a.change))[0];
+  if (sharpest && mean > 0 && Math.abs(sharpest.change) / mean * 100 >= STEP_CHANGE_PCT) {
+    const when = formatMonth(toDate(sharpest.month), lang);
+    drivers.push(isNL
+      ? `Sterkste verandering in ${when}: ${formatPct(sharpest.change / mean * 100)} van het maandgemiddelde`
+      : `Sharpest change in ${when}: ${formatPct(sharpest.change / mean * 100)} of the monthly average`);
+  }
+
+  const comparable = lastYear.filter(m => m.prevYearAmount !== undefined);
+  if (comparable.length >= 6) {
+    const above = comparable.filter(m => m.amount > (m.prevYearAmount || 0)).length;
+    drivers.push(isNL
+      ? `${above} van ${comparable.length} maanden boven het niveau van vorig jaar`
+      : `${above} of ${comparable.length} months above last year's level`);
+  }
+
+  if (anomalies.length > 0) {
+    const high = anomalies.filter(a => a.severity === 'HIGH').length;
+    drivers.push(isNL
+      ? `${anomalies.length} afwijking(en) gedetecteerd${high > 0 ? `, waarvan ${high} hoog` : ''}`
+      : `${anomalies.length} anomal${anomalies.length === 1 ? 'y' : 'ies'} detected${high > 0 ? `, ${high} of them high` : ''}`);
+  }
+
+  if (trend === 'down') {
+    risks.push(isNL ? 'Dalende omzet in het laatste kwartaal' : 'Declining revenue in the last quarter');
+  }
+  if (growthPct !== undefined && growthPct < 0) {
+    risks.push(isNL ? `Krimp van ${formatPct(growthPct)} ten opzichte van vorig jaar` : `Shrinking ${formatPct(growthPct)} against last year`);
+  }
+  const sd = Math.sqrt(lastYear.reduce((sum, m) => sum + (m.amount - mean) ** 2, 0) / Math.max(1, lastYear.length));
+  const isVolatile = mean > 0 && lastYear.length >= 6 && sd / mean > VOLATILE_CV;
+  if (isVolatile) {
+    risks.push(isNL
+      ? `Grillig verloop (variatiecoëfficiënt ${(sd / mean * 100).toFixed(0)}%)`
+      : `Volatile course (coefficient of variation ${(sd / mean * 100).toFixed(0)}%)`);
+  }
+  if (months.length > 0 && months[months.length - 1].amount === 0) {
+    risks.push(isNL ? 'Geen omzet in de laatste maand' : 'No revenue in the last month');
+  }
+  anomalies.filter(a => a.severity === 'HIGH').slice(-2).forEach(a => {
+    risks.push(`${formatMonth(toDate(a.month), lang)}: ${a.description}`);
+  });
+
+  if (trend === 'down' || (growthPct !== undefined && growthPct < 0)) {
+    actions.push(isNL
+      ? 'Zoek de oorzaak van de daling in de klantanalyse en de churnsignalen'
+      : 'Trace the decline in the customer analysis and churn warnings');
+  }
+  if (anomalies.length > 0) {
+    actions.push(isNL
+      ? 'Beoordeel de gemarkeerde afwijkingen en leg een toelichting vast'
+      : 'Review the flagged anomalies and record an explanation');
+  }
+  if (isVolatile) {
+    actions.push(isNL
+      ? 'Budgetteer op een voortschrijdend gemiddelde in plaats van losse maanden'
+      : 'Budget on a moving average rather than on single months');
+  }
+  if (trend === 'up' && (growthPct === undefined || growthPct >= 0)) {
+    actions.push(isNL
+      ? 'Ga na of de groei structureel is en neem die mee in de prognose'
+      : 'Check whether the growth is structural and include it in the forecast');
+  }
+  if (actions.length === 0) {
+    actions.push(isNL ? 'Geen directe actie nodig; volg de trend maandelijks' : 'No immediate action needed; follow the trend monthly');
+  }
+
+  return {
+    revenueType: context.revenueType,
+    insight: summary,
+    trend,
+    growthPct,
+    drivers: drivers.slice(0, 3),
+    risks: risks.slice(0, 3),
+    actions: actions.slice(0, 3)
+  };
+};
+
+export const offlineProvider: InsightProvider = {
+  type: InsightProviderType.OFFLINE,
+  model: 'rules',
+  generateInsight: async (context, lang) => describeOffline(context, lang)
+};
+
+/**
+ * The provider for the current settings. Gemini without a key, or a self-hosted endpoint
+ * without a URL, falls back to the offline narrative instead of failing on every call.
+ */
+export const createInsightProvider = (settings: InsightProviderSettings): InsightProvider => {
+  switch (settings.provider) {
+    case InsightProviderType.GEMINI: {
+      const apiKey = settings.apiKeys[InsightProviderType.GEMINI] || process.env.API_KEY || '';
+      return apiKey
+        ? createGeminiProvider(apiKey, settings.model || DEFAULT_MODELS[InsightProviderType.GEMINI])
+        : offlineProvider;
+    }
+    case InsightProviderType.OPENAI_COMPATIBLE:
+      return settings.baseUrl.trim()
+        ? createOpenAiCompatibleProvider(settings, settings.model || DEFAULT_MODELS[InsightProviderType.OPENAI_COMPATIBLE])
+        : offlineProvider;
+    default:
+      return offlineProvider;
+  }
+};
@@ -0,0 +1,93 @@
+import { format, eachMonthOfInterval, endOfMonth, parse } from 'date-fns';
+import { FinancialRecord, KpiSummary, ComparisonBasis } from "../types";
+import { RECURRING_REVENUE_TYPE } from "../constants";
+import { calculateGrowth, getComparisonBounds } from "../utils";
+
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+const sumByMonth = (records: FinancialRecord[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  records.forEach(r => {
+    const month = monthKey(r.date);
+    totals[month] = (totals[month] || 0) + r.amount;
+  });
+  return totals;
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+/**
+ * Headline numbers for the analysis window.
+ * Amounts in the window come from `periodRecords` (the filtered data); the comparisons with the
+ * previous period and last year use `history`, the same type selection over all dates.
+ * The window runs up to the last month with data, so a window ending in the current month
+ * does not count empty months against the average or the growth.
+ */
+export const calculateKpis = (
+  periodRecords: FinancialRecord[], history: FinancialRecord[], bounds: { start: Date; end: Date }
+): KpiSummary | null => {
+  if (periodRecords.length === 0) return null;
+
+  const lastMonth = periodRecords.reduce((max, r) => monthKey(r.date) > max ? monthKey(r.date) : max, '');
+  const end = monthKey(bounds.end) > lastMonth ? endOfMonth(parse(lastMonth, 'yyyy-MM', new Date())) : bounds.end;
+  const window = { start: bounds.start, end };
+  const months = eachMonthOfInterval(window).map(monthKey);
+
+  const current = sumByMonth(periodRecords);
+  const totals = months.map(m => current[m] || 0);
+  const total = sum(totals);
+
+  // Each month against the matching month of the comparison window
+  const compare = (basis: ComparisonBasis) => {
+    const comparison = getComparisonBounds(window, basis);
+    const previous = sumByMonth(history.filter(r => r.date >= comparison.start && r.date <= comparison.end));
+    const previousMonths = eachMonthOfInterval(comparison).map(monthKey);
+    const hasData = previousMonths.some(m => previous[m] !== undefined);
+    return {
+      value: hasData ? calculateGrowth(total, sum(previousMonths.map(m => previous[m] || 0))) : undefined,
+      sparkline: months.map((_, i) => calculateGrowth(totals[i], previous[previousMonths[i]]) ?? 0)
+    };
+  };
+
+  const recurring = sumByMonth(periodRecords.filter(r => r.revenueType === RECURRING_REVENUE_TYPE));
+  const recurringTotals = months.map(m => recurring[m] || 0);
+  const hasRecurring = recurringTotals.some(v => v !== 0);
+
+  // Customers when the data has them, revenue types otherwise
+  const kind = periodRecords.some(r => r.customer) ? 'customer' : 'revenueType';
+  const contributors: Record<string, FinancialRecord[]> = {};
+  periodRecords.forEach(r => {
+    const name = (kind === 'customer' ? r.customer : r.revenueType) || '';
+    if (!name) return;
+    if (!contributors[name]) contributors[name] = [];
+    contributors[name].push(r);
+  });
+  const top = Object.entries(contributors)
+    .map(([name, records]) => ({ name, records, amount: sum(records.map(r => r.amount)) }))
+    .sort((a, b) => b.amount - a.amount)[0];
+  const topMonthly = top ? sumByMonth(top.records) : {};
+
+  return {
+    months,
+    totalRevenue: { value: total, sparkline: totals },
+    growthPrevPeriod: compare(ComparisonBasis.PREVIOUS_PERIOD),
+    growthPrevYear: compare(ComparisonBasis.PREVIOUS_YEAR),
+    recurringShare: {
+      value: hasRecurring && total !== 0 ? sum(recurringTotals) / total * 100 : undefined,
+      sparkline: months.map((_, i) => totals[i] !== 0 ? recurringTotals[i] / totals[i] * 100 : 0)
+    },
+    mrr: { value: hasRecurring ? recurringTotals[recurringTotals.length - 1] : undefined, sparkline: recurringTotals },
+    averageMonthly: {
+      value: total / months.length,
+      // Running average, so the line shows where the average settles
+      sparkline: totals.map((_, i) => sum(totals.slice(0, i + 1)) / (i + 1))
+    },
+    topContributor: {
+      kind,
+      name: top?.name,
+      value: top?.amount,
+      share: top && total !== 0 ? top.amount / total * 100 : undefined,
+      sparkline: months.map(m => topMonthly[m] || 0)
+    }
+  };
+};
@@ -0,0 +1,27 @@
+import { MappingProfile } from "../types";
+
+const STORAGE_KEY = 'omzet-trendanalyse.mappingProfiles';
+
+// Column-mapping profiles live in localStorage so they survive a page refresh
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Could not read mapping profiles:", error);
+    return [];
+  }
+};
+
+// Saves or replaces (by name) a profile and returns the new list
+export const saveMappingProfile = (profile: MappingProfile): MappingProfile[] => {
+  const profiles = [...loadMappingProfiles().filter(p => p.name !== profile.name), profile];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const deleteMappingProfile = (name: string): MappingProfile[] => {
+  const profiles = loadMappingProfiles().filter(p => p.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
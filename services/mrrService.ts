@@ -0,0 +1,85 @@
+import { format, subMonths, eachMonthOfInterval, parse } from 'date-fns';
+import { FinancialRecord, MrrAnalysis, MrrMovement } from "../types";
+import { RECURRING_REVENUE_TYPE } from "../constants";
+
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+const previousMonth = (month: string) => monthKey(subMonths(parse(month, 'yyyy-MM', new Date()), 1));
+
+/**
+ * MRR movements of the recurring revenue ("Terugkerende inkomsten") per month of the window.
+ * MRR is the recurring revenue a customer is invoiced in a month; records without a customer are
+ * grouped by their description. Each month is compared with the month before:
+ * new (first recurring revenue ever), reactivated (back after one or more months without),
+ * expansion/contraction (up or down) and churned (none this month).
+ * Retention follows the customers that had MRR in the month before the window: NRR is their MRR
+ * at the end over their MRR at the start, GRR the same with every customer capped at its start.
+ */
+export const calculateMrrMovements = (history: FinancialRecord[], bounds: { start: Date; end: Date }): MrrAnalysis | null => {
+  const recurring = history.filter(r => r.revenueType === RECURRING_REVENUE_TYPE);
+  if (recurring.length === 0) return null;
+
+  const mrr: Record<string, Record<string, number>> = {};
+  recurring.forEach(r => {
+    const account = r.customer?.trim() || r.description.trim();
+    const month = monthKey(r.date);
+    if (!mrr[month]) mrr[month] = {};
+    mrr[month][account] = (mrr[month][account] || 0) + r.amount;
+  });
+
+  const dataMonths = Object.keys(mrr).sort();
+  const lastDataMonth = dataMonths[dataMonths.length - 1];
+  const startMonth = monthKey(bounds.start);
+  const endMonth = monthKey(bounds.end) < lastDataMonth ? monthKey(bounds.end) : lastDataMonth;
+  if (startMonth > endMonth) return null;
+
+  const total = (month: string) => Object.values(mrr[month] || {}).reduce((sum, v) => sum + v, 0);
+
+  // Accounts seen before a month, to tell new customers from returning ones
+  const seen = new Set<string>();
+  dataMonths.filter(m => m < startMonth).forEach(m => Object.keys(mrr[m]).forEach(a => seen.add(a)));
+
+  const movements: MrrMovement[] = eachMonthOfInterval({
+    start: parse(startMonth, 'yyyy-MM', new Date()),
+    end: parse(endMonth, 'yyyy-MM', new Date())
+  }).map(date => {
+    const month = monthKey(date);
+    const current = mrr[month] || {};
+    const previous = mrr[previousMonth(month)] || {};
+    const movement: MrrMovement = {
+      month, startMrr: total(previousMonth(month)), newMrr: 0, expansion: 0, contraction: 0, churned: 0, reactivated: 0,
+      endMrr: total(month)
+    };
+
+    new Set([...Object.keys(previous), ...Object.keys(current)]).forEach(account => {
+      const before = previous[account] || 0;
+      const now = current[account] || 0;
+      if (before <= 0 && now > 0) {
+        if (seen.has(account)) movement.reactivated += now;
+        else movement.newMrr += now;
+      } else if (before > 0 && now <= 0) {
+        movement.churned -= before;
+      } else if (now > before) {
+        movement.expansion += now - before;
+      } else if (now < before) {
+        movement.contraction -= before - now;
+      }
+    });
+    Object.keys(current).forEach(a => seen.add(a));
+    return movement;
+  });
+
+  const opening = mrr[previousMonth(startMonth)] || {};
+  const closing = mrr[endMonth] || {};
+  const openingTotal = Object.values(opening).filter(v => v > 0).reduce((sum, v) => sum + v, 0);
+  const retained = Object.entries(opening).filter(([, v]) => v > 0).map(([account, v]) => ({ start: v, end: Math.max(closing[account] || 0, 0) }));
+
+  return {
+    movements,
+    startMrr: total(previousMonth(startMonth)),
+    endMrr: total(endMonth),
+    nrr: openingTotal > 0 ? retained.reduce((sum, r) => sum + r.end, 0) / openingTotal * 100 : undefined,
+    grr: openingTotal > 0 ? retained.reduce((sum, r) => sum + Math.min(r.end, r.start), 0) / openingTotal * 100 : undefined,
+    customers: Object.values(closing).filter(v => v > 0).length
+  };
+};
@@ -0,0 +1,55 @@
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// HTTP status of a failed call: Gemini errors carry it as status or code, fetch errors get it attached
+const errorStatus = (error: any): number | undefined => {
+  const status = Number(error?.status ?? error?.code ?? error?.error?.code);
+  if (Number.isFinite(status) && status > 0) return status;
+  const match = String(error?.message || '').match(/\b(429|5\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Rate limits and server errors are worth another try, anything else fails straight away
+export const isRetryable = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  return status === 429 || (status !== undefined && status >= 500 && status < 600);
+};
+
+export const isQuotaError = (error: unknown): boolean => errorStatus(error) === 429;
+
+/**
+ * Runs the call and retries it on 429 and 5xx with exponential backoff (1s, 2s, 4s, ...)
+ * plus jitter, so parallel callers that hit the limit together don't retry together.
+ */
+export const withRetry = async <T>(run: () => Promise<T>, retries = DEFAULT_RETRIES): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+      await sleep(delay + Math.random() * delay * 0.25);
+    }
+  }
+};
+
+// Works through the items with at most `limit` workers running at the same time
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+};
@@ -0,0 +1,334 @@
+import jsPDF from 'jspdf';
+import autoTable, { HookData } from 'jspdf-autotable';
+import { format, parse } from 'date-fns';
+import {
+  Language, Theme, FinancialRecord, KpiSummary, Anomaly, Comment, AIInsight, AnomalySettings, AnomalyMethod
+} from "../types";
+import { LABELS, METHOD_LABELS, BASELINE_LABELS, SEVERITY_LABELS } from "../constants";
+import {
+  formatCurrency, formatDate, formatMonth, formatAnomalyScore, aggregateMonthly, addPrevYearAmounts, calculateGrowth
+} from "../utils";
+
+export interface ChartImage {
+  image: string; // PNG data URL
+  width: number;
+  height: number;
+  legend: { name: string; color: string }[];
+}
+
+export interface ReportInput {
+  appName: string;
+  language: Language;
+  theme: Theme;
+  period: { start: Date; end: Date };
+  revenueTypes: string[];     // Types in the report, in chart order
+  history: FinancialRecord[]; // Full history of those types, for the YoY columns
+  kpis: KpiSummary | null;
+  chart: ChartImage | null;
+  anomalies: Anomaly[];
+  anomalySettings: AnomalySettings;
+  comments: Comment[];
+  aiInsights: Record<string, AIInsight>;
+}
+
+const MARGIN = 14;
+
+const formatPct = (pct?: number, signed = true) =>
+  pct === undefined ? '-' : `${signed && pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+
+// CSS variables do not survive outside the page, so they are resolved before the SVG is serialised
+const resolveCssVars = (value: string): string =>
+  value.replace(/var\((--[\w-]+)(?:,\s*([^)]+))?\)/g, (_match, name: string, fallback?: string) =>
+    getComputedStyle(document.documentElement).getPropertyValue(name).trim() || (fallback || '').trim());
+
+/**
+ * Renders the first Recharts chart inside `container` to a PNG (SVG -> canvas), at twice the
+ * screen resolution so it stays sharp in print. Returns null when there is no chart.
+ */
+export const renderChartImage = async (
+  container: HTMLElement | null, legend: ChartImage['legend'] = []
+): Promise<ChartImage | null> => {
+  const svg = container?.querySelector('svg.recharts-surface') as SVGSVGElement | null;
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  [clone, ...Array.from(clone.querySelectorAll('*'))].forEach(el => {
+    ['fill', 'stroke', 'stop-color', 'style'].forEach(attr => {
+      const value = el.getAttribute(attr);
+      if (value && value.includes('var(')) el.setAttribute(attr, resolveCssVars(value));
+    });
+  });
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+  await new Promise((resolve, reject) => {
+    image.onload = resolve;
+    image.onerror = reject;
+  });
+
+  const scale = 2;
+  const canvas = document.createElement('canvas');
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return { image: canvas.toDataURL('image/png'), width, height, legend: legend.map(l => ({ ...l, color: resolveCssVars(l.color) })) };
+};
+
+/**
+ * Management report as a multi-page PDF: a cover, the KPI summary with the trend chart, monthly
+ * totals with YoY per revenue type, the anomalies with their comments and the AI insights.
+ * Texts follow the chosen language, colours the current theme.
+ */
+export const generateReport = (input: ReportInput): void => {
+  const { appName, language, theme, period, kpis, chart, anomalies, anomalySettings, comments, aiInsights } = input;
+  const colors = theme.colors;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const periodText = `${formatDate(period.start, language)} - ${formatDate(period.end, language)}`;
+  // The last page hook of a table fires after its final row, so its cursor is where the table ends
+  let lastTableY = 20;
+  const tableStyles = {
+    headStyles: { fillColor: colors.primary, textColor: '#ffffff' },
+    styles: { fontSize: 8, textColor: colors.text },
+    margin: { left: MARGIN, right: MARGIN, top: 20, bottom: 18 },
+    didDrawPage: (data: HookData) => { lastTableY = data.cursor?.y ?? lastTableY; }
+  };
+
+  const heading = (text: string, y: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(colors.primary);
+    doc.text(text, MARGIN, y);
+    doc.setDrawColor(colors.primary);
+    doc.setLineWidth(0.4);
+    doc.line(MARGIN, y + 2, pageWidth - MARGIN, y + 2);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(colors.text);
+    return y + 10;
+  };
+
+  // Room for `needed` mm on the current page, otherwise a new one
+  const ensureSpace = (y: number, needed: number) => {
+    if (y + needed <= pageHeight - 20) return y;
+    doc.addPage();
+    return 20;
+  };
+
+  // --- Cover ---
+  doc.setFillColor(colors.primary);
+  doc.rect(0, 0, pageWidth, 110, 'F');
+  doc.setTextColor('#ffffff');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(30);
+  doc.text(doc.splitTextToSize(appName, contentWidth), MARGIN, 60);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(16);
+  doc.text(LABELS.managementReport[language], MARGIN, 80);
+  doc.setFontSize(11);
+  doc.text(`${LABELS.analysisPeriod[language]}: ${periodText}`, MARGIN, 92);
+
+  doc.setTextColor(colors.text);
+  doc.setFontSize(10);
+  doc.text(`${LABELS.generatedOn[language]} ${formatDate(new Date(), language)}`, MARGIN, 125);
+  doc.text(doc.splitTextToSize(`${LABELS.costType[language]}: ${input.revenueTypes.join(', ')}`, contentWidth), MARGIN, 132);
+
+  // --- KPIs and trend ---
+  doc.addPage();
+  let y = heading(LABELS.kpiSummary[language], 20);
+  if (kpis) {
+    const top = kpis.topContributor;
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y,
+      head: [[LABELS.kpi[language], LABELS.value[language], '']],
+      body: [
+        [LABELS.totalRevenue[language], formatCurrency(kpis.totalRevenue.value || 0), `${kpis.months.length} ${LABELS.months[language]}`],
+        [LABELS.growthPrevPeriod[language], formatPct(kpis.growthPrevPeriod.value), ''],
+        [LABELS.growthPrevYear[language], formatPct(kpis.growthPrevYear.value), ''],
+        [LABELS.recurringShare[language], formatPct(kpis.recurringShare.value, false), ''],
+        ['MRR / ARR', kpis.mrr.value === undefined ? '-' : formatCurrency(kpis.mrr.value), kpis.mrr.value === undefined ? '' : `ARR ${formatCurrency(kpis.mrr.value * 12)}`],
+        [LABELS.averageMonthly[language], formatCurrency(kpis.averageMonthly.value || 0), ''],
+        [
+          top.kind === 'customer' ? LABELS.largestCustomer[language] : LABELS.largestRevenueType[language],
+          top.value === undefined ? '-' : formatCurrency(top.value),
+          top.name ? `${top.name} (${formatPct(top.share, false)})` : ''
+        ]
+      ]
+    });
+    y = lastTableY + 12;
+  }
+
+  if (chart) {
+    const imageHeight = Math.min(contentWidth * chart.height / chart.width, 110);
+    y = ensureSpace(y, imageHeight + 30);
+    y = heading(LABELS.trendAnalysis[language], y);
+    doc.addImage(chart.image, 'PNG', MARGIN, y, imageHeight * chart.width / chart.height, imageHeight);
+    y += imageHeight + 6;
+
+    // Recharts draws its legend in HTML, so it is rebuilt here
+    let x = MARGIN;
+    doc.setFontSize(8);
+    chart.legend.forEach(item => {
+      const width = doc.getTextWidth(item.name) + 10;
+      if (x + width > pageWidth - MARGIN) {
+        x = MARGIN;
+        y += 5;
+      }
+      doc.setFillColor(item.color);
+      doc.rect(x, y - 2.5, 3, 3, 'F');
+      doc.text(item.name, x + 4.5, y);
+      x += width;
+    });
+  }
+
+  // --- Monthly totals per type with YoY ---
+  doc.addPage();
+  y = heading(LABELS.monthlyTotalsPerType[language], 20);
+  const startMonth = format(period.start, 'yyyy-MM');
+  const endMonth = format(period.end, 'yyyy-MM');
+  const aggregates = addPrevYearAmounts(aggregateMonthly(input.history))
+    .filter(a => a.month >= startMonth && a.month <= endMonth);
+
+  input.revenueTypes.forEach(type => {
+    const rows = aggregates.filter(a => a.revenueType === type);
+    if (rows.length === 0) return;
+    const total = rows.reduce((sum, a) => sum + a.amount, 0);
+    const prevTotal = rows.every(a => a.prevYearAmount === undefined)
+      ? undefined
+      : rows.reduce((sum, a) => sum + (a.prevYearAmount || 0), 0);
+
+    y = ensureSpace(y, 30);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(type, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y + 3,
+      head: [[LABELS.month[language], LABELS.actualLabel[language], LABELS.previousYearColumn[language], 'YoY']],
+      body: rows.map(a => [
+        formatMonth(parse(a.month, 'yyyy-MM', new Date()), language),
+        formatCurrency(a.amount),
+        a.prevYearAmount === undefined ? '-' : formatCurrency(a.prevYearAmount),
+        formatPct(calculateGrowth(a.amount, a.prevYearAmount))
+      ]),
+      foot: [[
+        LABELS.total[language], formatCurrency(total), prevTotal === undefined ? '-' : formatCurrency(prevTotal),
+        formatPct(calculateGrowth(total, prevTotal))
+      ]],
+      footStyles: { fillColor: '#f1f5f9', textColor: colors.text },
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } }
+    });
+    y = lastTableY + 10;
+  });
+
+  // --- Anomalies with comments ---
+  doc.addPage();
+  y = heading(LABELS.anomalies[language], 20);
+  const thresholds = anomalySettings.thresholds[anomalySettings.method];
+  const settingsLine = [
+    METHOD_LABELS[anomalySettings.method][language],
+    anomalySettings.method === AnomalyMethod.ZSCORE ? BASELINE_LABELS[anomalySettings.seasonalBaseline][language] : '',
+    `${SEVERITY_LABELS.LOW[language]} > ${thresholds.low} / ${SEVERITY_LABELS.MEDIUM[language]} > ${thresholds.medium} / ${SEVERITY_LABELS.HIGH[language]} > ${thresholds.high}`,
+    anomalySettings.minAbsoluteAmount > 0 ? `${LABELS.minAbsoluteAmount[language]}: ${anomalySettings.minAbsoluteAmount}` : ''
+  ].filter(Boolean).join(' · ');
+  // Anomalies of overridden types were found with their own method and thresholds
+  const overridesLine = Object.entries(anomalySettings.typeOverrides).map(([type, o]) => `${type}: ${
+    [o.method ? METHOD_LABELS[o.method][language] : '', o.thresholds ? `${o.thresholds.low} / ${o.thresholds.medium} / ${o.thresholds.high}` : '']
+      .filter(Boolean).join(' · ')}`
+  ).join('; ');
+  const settingsLines: string[] = [
+    ...doc.splitTextToSize(settingsLine, contentWidth),
+    ...(overridesLine ? doc.splitTextToSize(`${LABELS.typeOverrides[language]}: ${overridesLine}`, contentWidth) : [])
+  ];
+  doc.setFontSize(8);
+  doc.text(settingsLines, MARGIN, y - 3);
+  y += (settingsLines.length - 1) * 3.5;
+
+  if (anomalies.length === 0) {
+    doc.setFontSize(10);
+    doc.text(LABELS.noAnomalies[language], MARGIN, y + 6);
+  } else {
+    const severityColor = { HIGH: colors.highRisk, MEDIUM: colors.mediumRisk, LOW: colors.lowRisk };
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y + 2,
+      head: [[
+        LABELS.month[language], LABELS.costType[language], LABELS.actualLabel[language], LABELS.expected[language],
+        LABELS.deviation[language], LABELS.severity[language], LABELS.comments[language]
+      ]],
+      body: anomalies.map(a => [
+        format(a.date, 'yyyy-MM'),
+        `${a.subCategory ? `${a.revenueType} / ${a.subCategory}` : a.revenueType}\n${a.description}`,
+        formatCurrency(a.amount),
+        formatCurrency(a.expectedAmount),
+        formatAnomalyScore(a),
+        SEVERITY_LABELS[a.severity][language],
+        comments
+          .filter(c => c.recordId === a.id)
+          .map(c => `${c.author} (${formatDate(c.timestamp, language)}): ${c.text}`)
+          .join('\n')
+      ]),
+      columnStyles: { 1: { cellWidth: 50 }, 2: { halign: 'right' }, 3: { halign: 'right' }, 6: { cellWidth: 50 } },
+      didParseCell: (data) => {
+        if (data.section === 'body' && data.column.index === 5) {
+          data.cell.styles.textColor = severityColor[anomalies[data.row.index].severity];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+  }
+
+  // --- AI insights ---
+  const insights = input.revenueTypes.map(type => aiInsights[type]).filter(insight => insight && !insight.failed);
+  if (insights.length > 0) {
+    doc.addPage();
+    y = heading(LABELS.aiAnalysis[language], 20);
+    insights.forEach(insight => {
+      const growth = insight.growthPct === undefined ? '' : ` (${insight.growthPct > 0 ? '+' : ''}${insight.growthPct.toFixed(1)}%)`;
+      const lines: string[] = doc.splitTextToSize(insight.insight, contentWidth);
+      [
+        { title: LABELS.keyDrivers[language], items: insight.drivers },
+        { title: LABELS.risks[language], items: insight.risks },
+        { title: LABELS.recommendedActions[language], items: insight.actions }
+      ].forEach(({ title, items }) => {
+        if (!items || items.length === 0) return;
+        lines.push(`${title}:`);
+        items.forEach(item => lines.push(...doc.splitTextToSize(`- ${item}`, contentWidth - 4)));
+      });
+      y = ensureSpace(y, 8 + lines.length * 5);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(10);
+      doc.text(`${insight.revenueType}${growth}`, MARGIN, y);
+      doc.setFont('helvetica', 'normal');
+      doc.text(lines, MARGIN, y + 5);
+      y += 10 + lines.length * 5;
+    });
+  }
+
+  // --- Footer on every page but the cover ---
+  const pages = doc.getNumberOfPages();
+  for (let page = 2; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(colors.primary);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, pageHeight - 12, pageWidth - MARGIN, pageHeight - 12);
+    doc.setFontSize(8);
+    doc.setTextColor(colors.text);
+    doc.text(`${appName} · ${periodText}`, MARGIN, pageHeight - 7);
+    doc.text(`${LABELS.page[language]} ${page} / ${pages}`, pageWidth - MARGIN, pageHeight - 7, { align: 'right' });
+  }
+
+  doc.save(`${appName.replace(/[^\w-]+/g, '_')}_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+};
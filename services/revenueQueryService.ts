@@ -0,0 +1,333 @@
+import { format, parse, addMonths, differenceInCalendarMonths } from 'date-fns';
+import {
+  Language, FinancialRecord, Anomaly, Comment, RevenueQuery, RevenueQueryResult, RevenueQueryRow,
+  RevenueQueryGrouping, RevenueMoverDimension
+} from "../types";
+import { formatCurrency } from "../utils";
+import { asJsonObject } from "./insightProviderService";
+
+// Everything the revenue chat may calculate with
+export interface RevenueDataset {
+  records: FinancialRecord[];
+  anomalies: Anomaly[];
+  comments: Comment[];
+}
+
+// Names and range the model (or the local planner) can refer to
+export interface DatasetCatalog {
+  firstMonth: string;
+  lastMonth: string;
+  revenueTypes: string[];
+  subCategories: string[];
+  customers: string[]; // Largest first
+}
+
+const GROUPINGS: RevenueQueryGrouping[] = ['month', 'quarter', 'year', 'revenueType', 'subCategory', 'customer'];
+const DIMENSIONS: RevenueMoverDimension[] = ['revenueType', 'subCategory', 'customer'];
+const MAX_CATALOG_CUSTOMERS = 50;
+const MAX_ROWS = 25;
+const MAX_PERIOD_ROWS = 36;
+const DEFAULT_MOVERS = 5;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const GROUP_NAMES: Record<RevenueQueryGrouping, Record<Language, string>> = {
+  month: { [Language.NL]: 'maand', [Language.EN]: 'month' },
+  quarter: { [Language.NL]: 'kwartaal', [Language.EN]: 'quarter' },
+  year: { [Language.NL]: 'jaar', [Language.EN]: 'year' },
+  revenueType: { [Language.NL]: 'omzetsoort', [Language.EN]: 'revenue type' },
+  subCategory: { [Language.NL]: 'subcategorie', [Language.EN]: 'subcategory' },
+  customer: { [Language.NL]: 'klant', [Language.EN]: 'customer' }
+};
+
+const monthOf = (date: Date) => format(date, 'yyyy-MM');
+const toDate = (month: string) => parse(month, 'yyyy-MM', new Date());
+const shiftMonth = (month: string, months: number) => format(addMonths(toDate(month), months), 'yyyy-MM');
+const monthSpan = (start: string, end: string) => differenceInCalendarMonths(toDate(end), toDate(start)) + 1;
+
+const inWindow = (record: FinancialRecord, start?: string, end?: string) => {
+  const month = monthOf(record.date);
+  return (!start || month >= start) && (!end || month <= end);
+};
+
+const groupKey = (record: FinancialRecord, groupBy: RevenueQueryGrouping, lang: Language): string => {
+  switch (groupBy) {
+    case 'month': return monthOf(record.date);
+    case 'quarter': return `${format(record.date, 'yyyy')}-Q${Math.floor(record.date.getMonth() / 3) + 1}`;
+    case 'year': return format(record.date, 'yyyy');
+    case 'revenueType': return record.revenueType;
+    case 'subCategory': return `${record.revenueType} / ${record.subCategory || '-'}`;
+    case 'customer': return record.customer || (lang === Language.NL ? '(geen klant)' : '(no customer)');
+  }
+};
+
+const sumBy = (records: FinancialRecord[], groupBy: RevenueQueryGrouping, lang: Language) => {
+  const groups = new Map<string, { amount: number; count: number }>();
+  records.forEach(r => {
+    const key = groupKey(r, groupBy, lang);
+    const group = groups.get(key) || { amount: 0, count: 0 };
+    group.amount += r.amount;
+    group.count++;
+    groups.set(key, group);
+  });
+  return groups;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const describeDataset = (records: FinancialRecord[]): DatasetCatalog => {
+  const months = records.map(r => monthOf(r.date)).sort();
+  const customerTotals = sumBy(records.filter(r => r.customer), 'customer', Language.EN);
+  return {
+    firstMonth: months[0] || '',
+    lastMonth: months[months.length - 1] || '',
+    revenueTypes: Array.from(new Set(records.map(r => r.revenueType))).sort(),
+    subCategories: Array.from(new Set(records.filter(r => r.subCategory).map(r => `${r.revenueType} / ${r.subCategory}`))).sort(),
+    customers: Array.from(customerTotals.entries())
+      .sort((a, b) => b[1].amount - a[1].amount)
+      .slice(0, MAX_CATALOG_CUSTOMERS)
+      .map(([name]) => name)
+  };
+};
+
+// Exact name from the list, matched case-insensitively; unknown names are dropped
+const knownName = (value: unknown, names: string[]): string | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const wanted = value.trim().toLowerCase();
+  return names.find(n => n.toLowerCase() === wanted);
+};
+
+const validMonth = (value: unknown): string | undefined =>
+  typeof value === 'string' && MONTH_PATTERN.test(value) ? value : undefined;
+
+/**
+ * A calculation as proposed by the model, checked against the dataset: unknown calculations,
+ * groupings and months are rejected, names are mapped onto their exact spelling.
+ */
+export const parseRevenueQuery = (value: unknown, catalog: DatasetCatalog): RevenueQuery | null => {
+  const raw = asJsonObject(value);
+  const start = validMonth(raw.start);
+  const end = validMonth(raw.end);
+  const revenueType = knownName(raw.revenueType, catalog.revenueTypes);
+  switch (raw.name) {
+    case 'totals': {
+      const groupBy = GROUPINGS.find(g => g === raw.groupBy);
+      if (!groupBy) return null;
+      return { name: 'totals', groupBy, start, end, revenueType, customer: knownName(raw.customer, catalog.customers) };
+    }
+    case 'topMovers': {
+      const dimension = DIMENSIONS.find(d => d === raw.dimension);
+      if (!dimension || !start || !end) return null;
+      const limit = Number(raw.limit);
+      return {
+        name: 'topMovers', dimension, start, end,
+        compareStart: validMonth(raw.compareStart), compareEnd: validMonth(raw.compareEnd),
+        revenueType, limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_ROWS) : undefined
+      };
+    }
+    case 'anomalies':
+      return { name: 'anomalies', start, end, revenueType };
+    default:
+      return null;
+  }
+};
+
+const windowText = (start: string | undefined, end: string | undefined, lang: Language) => {
+  if (!start && !end) return lang === Language.NL ? 'alle maanden' : 'all months';
+  if (start === end) return start as string;
+  return `${start || '…'} ${lang === Language.NL ? 't/m' : 'to'} ${end || '…'}`;
+};
+
+const compareWindow = (query: Extract<RevenueQuery, { name: 'topMovers' }>) => {
+  const span = monthSpan(query.start, query.end);
+  return {
+    start: query.compareStart || shiftMonth(query.start, -span),
+    end: query.compareEnd || shiftMonth(query.end, -span)
+  };
+};
+
+/**
+ * Runs one calculation on the dataset. These numbers are what the chat answers are
+ * built on, so the model only has to explain them, not compute them.
+ */
+export const runRevenueQuery = (query: RevenueQuery, dataset: RevenueDataset, lang: Language): RevenueQueryResult => {
+  const isNL = lang === Language.NL;
+  const scope = (query.revenueType ? ` · ${query.revenueType}` : '') + (query.name === 'totals' && query.customer ? ` · ${query.customer}` : '');
+
+  if (query.name === 'totals') {
+    const records = dataset.records.filter(r =>
+      inWindow(r, query.start, query.end) &&
+      (!query.revenueType || r.revenueType === query.revenueType) &&
+      (!query.customer || r.customer === query.customer));
+    const isTime = ['month', 'quarter', 'year'].includes(query.groupBy);
+    const rows: RevenueQueryRow[] = Array.from(sumBy(records, query.groupBy, lang).entries())
+      .map(([key, g]) => ({ key, amount: round(g.amount), count: g.count }))
+      .sort((a, b) => isTime ? a.key.localeCompare(b.key) : b.amount - a.amount);
+    return {
+      query,
+      label: `${isNL ? 'Omzet per' : 'Revenue by'} ${GROUP_NAMES[query.groupBy][lang]}${scope} · ${windowText(query.start, query.end, lang)}`,
+      rows: isTime ? rows.slice(-MAX_PERIOD_ROWS) : rows.slice(0, MAX_ROWS), // Most recent periods, largest groups
+      total: round(records.reduce((sum, r) => sum + r.amount, 0))
+    };
+  }
+
+  if (query.name === 'topMovers') {
+    const previousWindow = compareWindow(query);
+    const scoped = dataset.records.filter(r => !query.revenueType || r.revenueType === query.revenueType);
+    const current = sumBy(scoped.filter(r => inWindow(r, query.start, query.end)), query.dimension, lang);
+    const previous = sumBy(scoped.filter(r => inWindow(r, previousWindow.start, previousWindow.end)), query.dimension, lang);
+    const keys = Array.from(new Set([...current.keys(), ...previous.keys()]));
+    const rows: RevenueQueryRow[] = keys
+      .map(key => {
+        const amount = current.get(key)?.amount || 0;
+        const before = previous.get(key)?.amount || 0;
+        return {
+          key,
+          amount: round(amount),
+          previous: round(before),
+          change: round(amount - before),
+          changePct: before !== 0 ? round((amount - before) / Math.abs(before) * 100) : undefined
+        };
+      })
+      .filter(row => row.change !== 0)
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, query.limit || DEFAULT_MOVERS);
+    const sum = (groups: Map<string, { amount: number }>) => Array.from(groups.values()).reduce((total, g) => total + g.amount, 0);
+    return {
+      query,
+      label: `${isNL ? 'Grootste verschuivingen per' : 'Top movers by'} ${GROUP_NAMES[query.dimension][lang]}${scope} · ` +
+        `${windowText(query.start, query.end, lang)} vs ${windowText(previousWindow.start, previousWindow.end, lang)}`,
+      rows,
+      total: round(sum(current) - sum(previous))
+    };
+  }
+
+  const anomalies = dataset.anomalies.filter(a => {
+    const month = monthOf(a.date);
+    return (!query.start || month >= query.start) && (!query.end || month <= query.end) &&
+      (!query.revenueType || a.revenueType === query.revenueType);
+  });
+  return {
+    query,
+    label: `${isNL ? 'Afwijkingen' : 'Anomalies'}${scope} · ${windowText(query.start, query.end, lang)}`,
+    rows: anomalies.slice(0, MAX_ROWS).map(a => ({
+      key: `${monthOf(a.date)} ${a.revenueType}${a.subCategory ? ` / ${a.subCategory}` : ''}`,
+      amount: round(a.amount),
+      expected: round(a.expectedAmount),
+      severity: a.severity,
+      description: a.description,
+      comments: dataset.comments.filter(c => c.recordId === a.id).map(c => `${c.author}: ${c.text}`)
+    })),
+    total: round(anomalies.reduce((sum, a) => sum + a.amount - a.expectedAmount, 0))
+  };
+};
+
+// --- Local planner: used offline, and when the model's plan is unusable ---
+
+const MONTH_WORDS: Record<string, number> = {
+  januari: 1, january: 1, februari: 2, february: 2, maart: 3, march: 3, april: 4, mei: 5, juni: 6, june: 6,
+  juli: 7, july: 7, augustus: 8, august: 8, september: 9, oktober: 10, october: 10, november: 11, december: 12
+};
+
+// Also ordinary words ("may churn", "jan de vries"): only a month with a day or year next to it
+const SHORT_MONTH_WORDS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, mrt: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, okt: 10, oct: 10, nov: 11, dec: 12
+};
+const SHORT_MONTH_PATTERN = /(\b\d{1,2}\s+)?\b([a-z]{3,4})\b\.?([\s-]*'?\d{2}(?:\d{2})?\b)?/g;
+
+// Longest name that occurs in the question, so "Klant AB" wins over "Klant A"
+const mentionedName = (question: string, names: string[]): string | undefined =>
+  [...names].sort((a, b) => b.length - a.length).find(name => name.length >= 3 && question.includes(name.toLowerCase()));
+
+// The latest month with this number that the data reaches
+const latestMonth = (month: number, lastMonth: string): string => {
+  const year = Number(lastMonth.slice(0, 4));
+  const candidate = `${year}-${String(month).padStart(2, '0')}`;
+  return candidate <= lastMonth ? candidate : `${year - 1}-${String(month).padStart(2, '0')}`;
+};
+
+const questionWindow = (question: string, catalog: DatasetCatalog): { start: string; end: string } => {
+  const year = question.match(/\b(19|20)\d{2}\b/)?.[0];
+  const quarter = question.match(/\bq([1-4])\b/)?.[1];
+  const months = [
+    ...question.split(/[^\p{L}\d]+/u).map(word => MONTH_WORDS[word]),
+    ...Array.from(question.matchAll(SHORT_MONTH_PATTERN))
+      .map(([, day, word, yearPart]) => day || yearPart ? SHORT_MONTH_WORDS[word] : undefined)
+  ].filter((month): month is number => month !== undefined);
+
+  if (quarter) {
+    const firstMonth = (Number(quarter) - 1) * 3 + 1;
+    const start = year ? `${year}-${String(firstMonth).padStart(2, '0')}` : latestMonth(firstMonth, catalog.lastMonth);
+    return { start, end: shiftMonth(start, 2) };
+  }
+  if (months.length > 0) {
+    const resolve = (m: number) => year ? `${year}-${String(m).padStart(2, '0')}` : latestMonth(m, catalog.lastMonth);
+    const resolved = months.map(resolve).sort();
+    return { start: resolved[0], end: resolved[resolved.length - 1] };
+  }
+  if (year) return { start: `${year}-01`, end: `${year}-12` };
+  if (/dit jaar|this year/.test(question)) return { start: `${catalog.lastMonth.slice(0, 4)}-01`, end: catalog.lastMonth };
+  if (/vorige maand|last month/.test(question)) return { start: catalog.lastMonth, end: catalog.lastMonth };
+  // Nothing specific: the last quarter of the data
+  return { start: shiftMonth(catalog.lastMonth, -2), end: catalog.lastMonth };
+};
+
+/**
+ * Picks the calculations for a question without a model: the period, revenue type and
+ * customer it mentions decide the window and filters; the result is always the course
+ * per month, the top movers against the previous period (or year) and the anomalies.
+ */
+export const planQueries = (question: string, catalog: DatasetCatalog): RevenueQuery[] => {
+  if (!catalog.lastMonth) return [];
+  const text = question.toLowerCase();
+  const { start, end } = questionWindow(text, catalog);
+  const revenueType = mentionedName(text, catalog.revenueTypes);
+  const customer = mentionedName(text, catalog.customers);
+  const span = monthSpan(start, end);
+  // Whole or running years are compared with the same months a year earlier
+  const yearOnYear = /vorig jaar|jaar op jaar|last year|year on year|yoy/.test(text) || (start.endsWith('-01') && span >= 12) ||
+    /dit jaar|this year/.test(text);
+  const compareStart = yearOnYear ? shiftMonth(start, -12) : shiftMonth(start, -span);
+  const compareEnd = yearOnYear ? shiftMonth(end, -12) : shiftMonth(end, -span);
+  const asksCustomers = /klant|klanten|customer|customers|relatie/.test(text);
+
+  return [
+    { name: 'totals', groupBy: 'month', start, end, revenueType, customer },
+    {
+      name: 'topMovers',
+      dimension: customer ? 'revenueType' : (revenueType || asksCustomers ? 'customer' : 'revenueType'),
+      start, end, compareStart, compareEnd, revenueType
+    },
+    { name: 'anomalies', start, end, revenueType }
+  ];
+};
+
+const signedCurrency = (amount: number) => `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`;
+
+// The offline answer: the calculated figures in a few plain sentences
+export const summarizeResults = (results: RevenueQueryResult[], lang: Language): string => {
+  const isNL = lang === Language.NL;
+  const sentences: string[] = [];
+  results.forEach(result => {
+    if (result.query.name === 'totals') {
+      sentences.push(`${result.label}: ${isNL ? 'totaal' : 'total'} ${formatCurrency(result.total)}.`);
+    } else if (result.query.name === 'topMovers') {
+      if (result.rows.length === 0) return;
+      const risers = result.rows.filter(r => (r.change || 0) > 0).slice(0, 3);
+      const fallers = result.rows.filter(r => (r.change || 0) < 0).slice(0, 3);
+      const list = (rows: RevenueQueryRow[]) => rows.map(r => `${r.key} (${signedCurrency(r.change || 0)})`).join(', ');
+      sentences.push(`${result.label}: ${isNL ? 'netto' : 'net'} ${signedCurrency(result.total)}.`);
+      if (risers.length > 0) sentences.push(`${isNL ? 'Stijgers' : 'Risers'}: ${list(risers)}.`);
+      if (fallers.length > 0) sentences.push(`${isNL ? 'Dalers' : 'Fallers'}: ${list(fallers)}.`);
+    } else if (result.rows.length === 0) {
+      sentences.push(`${result.label}: ${isNL ? 'geen' : 'none'}.`);
+    } else {
+      sentences.push(`${result.label}: ${result.rows.map(r =>
+        `${r.key} ${r.description || ''} (${formatCurrency(r.amount)} ${isNL ? 'i.p.v.' : 'vs'} ${formatCurrency(r.expected || 0)})` +
+        (r.comments && r.comments.length > 0 ? ` – ${r.comments.join('; ')}` : '')
+      ).join(', ')}.`);
+    }
+  });
+  return sentences.length > 0
+    ? sentences.join(' ')
+    : (isNL ? 'Geen gegevens gevonden voor deze vraag.' : 'No data found for this question.');
+};
@@ -0,0 +1,123 @@
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import {
+  Language, FinancialRecord, Anomaly, Comment, LookupRule, AnomalySettings, AnomalyMethod
+} from "../types";
+import { LABELS, FIELD_LABELS, METHOD_LABELS, BASELINE_LABELS, SEVERITY_LABELS } from "../constants";
+import { summarizeUnmatched, createLookupRulesSheet } from "../utils";
+
+export interface WorkbookInput {
+  appName: string;
+  language: Language;
+  period: { start: Date; end: Date };
+  records: FinancialRecord[]; // Filtered data: analysis window, type selection and visible sources
+  anomalies: Anomaly[];
+  comments: Comment[];
+  lookupRules: LookupRule[];
+  anomalySettings: AnomalySettings;
+  selectedRevenueTypes: string[];
+  selectedSubCategories: string[];
+  hiddenSources: string[];
+  forecastHorizon: number;
+}
+
+/**
+ * The analysed dataset as a workbook: classified transactions, a month x revenue type pivot,
+ * the anomalies with their comments, the unmatched items and the settings the analysis ran with
+ * (the lookup rules in upload format, so they can be edited and uploaded again).
+ */
+export const downloadAnalysisWorkbook = (input: WorkbookInput) => {
+  const { language: lang, records } = input;
+  const wb = XLSX.utils.book_new();
+  const sheet = (rows: any[][], cols: number[], name: string) => {
+    const ws = XLSX.utils.aoa_to_sheet(rows, { cellDates: true, dateNF: 'yyyy-mm-dd' });
+    ws['!cols'] = cols.map(wch => ({ wch }));
+    XLSX.utils.book_append_sheet(wb, ws, name);
+  };
+
+  // --- Transactions ---
+  const transactionRows = [...records]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(r => [
+      r.id, r.date, r.customer || '', r.ledger || '', r.revenueType, r.subCategory || '', r.description, r.amount,
+      r.matchedRule || '', r.source || ''
+    ]);
+  sheet([
+    [
+      FIELD_LABELS.id[lang], FIELD_LABELS.date[lang], FIELD_LABELS.customer[lang], FIELD_LABELS.ledger[lang],
+      FIELD_LABELS.revenueType[lang], LABELS.subCategory[lang], FIELD_LABELS.description[lang],
+      FIELD_LABELS.amount[lang], LABELS.lookupRule[lang], LABELS.source[lang]
+    ],
+    ...transactionRows
+  ], [16, 12, 24, 12, 28, 24, 40, 14, 45, 30], LABELS.sheetTransactions[lang]);
+
+  // --- Pivot: one row per month, one column per revenue type, totals both ways ---
+  const types = Array.from(new Set(records.map(r => r.revenueType))).sort();
+  const months = Array.from(new Set(records.map(r => format(r.date, 'yyyy-MM')))).sort();
+  const cells: Record<string, number> = {};
+  records.forEach(r => {
+    const key = `${format(r.date, 'yyyy-MM')}|${r.revenueType}`;
+    cells[key] = (cells[key] || 0) + r.amount;
+  });
+  const typeTotals = types.map(type => months.reduce((sum, m) => sum + (cells[`${m}|${type}`] || 0), 0));
+  sheet([
+    [LABELS.month[lang], ...types, LABELS.total[lang]],
+    ...months.map(m => {
+      const values = types.map(type => cells[`${m}|${type}`] || 0);
+      return [m, ...values, values.reduce((sum, v) => sum + v, 0)];
+    }),
+    [LABELS.total[lang], ...typeTotals, typeTotals.reduce((sum, v) => sum + v, 0)]
+  ], [12, ...types.map(() => 20), 16], LABELS.sheetPivot[lang]);
+
+  // --- Anomalies with comments ---
+  sheet([
+    [
+      LABELS.month[lang], FIELD_LABELS.revenueType[lang], LABELS.subCategory[lang], LABELS.actualLabel[lang],
+      LABELS.expected[lang], LABELS.detectionMethod[lang], 'Score', LABELS.severity[lang],
+      FIELD_LABELS.description[lang], LABELS.comments[lang]
+    ],
+    ...input.anomalies.map(a => [
+      format(a.date, 'yyyy-MM'), a.revenueType, a.subCategory || '', a.amount, Math.round(a.expectedAmount),
+      METHOD_LABELS[a.method][lang], Number(a.zScore.toFixed(2)), SEVERITY_LABELS[a.severity][lang], a.description,
+      input.comments
+        .filter(c => c.recordId === a.id)
+        .map(c => `${c.author} (${format(c.timestamp, 'yyyy-MM-dd HH:mm')}): ${c.text}`)
+        .join('\n')
+    ])
+  ], [10, 28, 24, 14, 14, 22, 10, 12, 45, 60], LABELS.sheetAnomalies[lang]);
+
+  // --- Unmatched items ---
+  sheet([
+    [FIELD_LABELS.description[lang], LABELS.count[lang], FIELD_LABELS.amount[lang]],
+    ...summarizeUnmatched(records).map(item => [item.text, item.count, item.total])
+  ], [50, 12, 14], LABELS.sheetUnmatched[lang]);
+
+  // --- Settings ---
+  const settings = input.anomalySettings;
+  const thresholds = settings.thresholds[settings.method];
+  const selection = [...input.selectedRevenueTypes, ...input.selectedSubCategories.map(key => key.replace('|', ' / '))];
+  sheet([
+    [LABELS.appName[lang], input.appName],
+    [LABELS.generatedOn[lang], format(new Date(), 'yyyy-MM-dd HH:mm')],
+    [LABELS.analysisPeriod[lang], `${format(input.period.start, 'yyyy-MM-dd')} - ${format(input.period.end, 'yyyy-MM-dd')}`],
+    [LABELS.costType[lang], selection.length > 0 ? selection.join(', ') : LABELS.all[lang]],
+    [LABELS.hiddenSources[lang], input.hiddenSources.join(', ')],
+    [LABELS.records[lang], records.length],
+    [],
+    [LABELS.detectionMethod[lang], METHOD_LABELS[settings.method][lang]],
+    [LABELS.anomalyBaseline[lang], settings.method === AnomalyMethod.ZSCORE ? BASELINE_LABELS[settings.seasonalBaseline][lang] : ''],
+    [LABELS.thresholds[lang], `${SEVERITY_LABELS.LOW[lang]} ${thresholds.low} / ${SEVERITY_LABELS.MEDIUM[lang]} ${thresholds.medium} / ${SEVERITY_LABELS.HIGH[lang]} ${thresholds.high}`],
+    [LABELS.minAbsoluteAmount[lang], settings.minAbsoluteAmount],
+    [LABELS.perSubCategory[lang], (settings.bySubCategory ? LABELS.yes : LABELS.no)[lang]],
+    ...Object.entries(settings.typeOverrides).map(([type, o]) => [
+      `${LABELS.typeOverrides[lang]}: ${type}`,
+      [o.method ? METHOD_LABELS[o.method][lang] : '', o.thresholds ? `${o.thresholds.low} / ${o.thresholds.medium} / ${o.thresholds.high}` : '']
+        .filter(Boolean).join(' · ')
+    ]),
+    [LABELS.forecast[lang], input.forecastHorizon > 0 ? `${input.forecastHorizon} ${LABELS.months[lang]}` : LABELS.none[lang]]
+  ], [35, 60], LABELS.sheetSettings[lang]);
+
+  XLSX.utils.book_append_sheet(wb, createLookupRulesSheet(input.lookupRules), LABELS.sheetLookupRules[lang]);
+
+  XLSX.writeFile(wb, `${input.appName.replace(/[^\w-]+/g, '_')}_${format(new Date(), 'yyyy-MM-dd')}.xlsx`);
+};
@@ -0,0 +1,99 @@
+import { format } from 'date-fns';
+import { Workspace, WorkspaceState } from "../types";
+
+const DB_NAME = 'omzet-trendanalyse';
+const DB_VERSION = 1;
+const STORE = 'workspaces';
+const ACTIVE_KEY = 'omzet-trendanalyse.activeWorkspace';
+const EXPORT_FORMAT = 'omzet-trendanalyse.workspace';
+
+export const DEFAULT_WORKSPACE = 'Standaard';
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'name' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request against the workspace store and closes the connection afterwards
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const toDate = (value: unknown): Date => value instanceof Date ? value : new Date(value as string);
+
+/**
+ * Turns the serialised dates of a workspace back into Date objects. IndexedDB keeps dates intact,
+ * but a JSON export carries them as ISO strings.
+ */
+const reviveWorkspace = (workspace: Workspace): Workspace => ({
+  ...workspace,
+  updatedAt: toDate(workspace.updatedAt),
+  state: {
+    ...workspace.state,
+    rawData: (workspace.state.rawData || []).map(r => ({ ...r, date: toDate(r.date) })),
+    comments: (workspace.state.comments || []).map(c => ({ ...c, timestamp: toDate(c.timestamp) }))
+  }
+});
+
+// Names and last-saved times, most recent first
+export const listWorkspaces = async (): Promise<{ name: string; updatedAt: Date }[]> => {
+  const all = await withStore<Workspace[]>('readonly', store => store.getAll());
+  return all
+    .map(w => ({ name: w.name, updatedAt: toDate(w.updatedAt) }))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const loadWorkspace = async (name: string): Promise<Workspace | null> => {
+  const workspace = await withStore<Workspace | undefined>('readonly', store => store.get(name));
+  return workspace ? reviveWorkspace(workspace) : null;
+};
+
+export const saveWorkspace = async (name: string, state: WorkspaceState): Promise<void> => {
+  await withStore('readwrite', store => store.put({ name, updatedAt: new Date(), state }));
+};
+
+export const deleteWorkspace = async (name: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(name));
+};
+
+// The workspace that was open last, restored on the next visit
+export const getActiveWorkspaceName = (): string => localStorage.getItem(ACTIVE_KEY) || DEFAULT_WORKSPACE;
+
+export const setActiveWorkspaceName = (name: string) => localStorage.setItem(ACTIVE_KEY, name);
+
+// Downloads the complete workspace as JSON, to hand over to a colleague
+export const exportWorkspace = (name: string, state: WorkspaceState) => {
+  const payload = { format: EXPORT_FORMAT, version: DB_VERSION, name, updatedAt: new Date(), state };
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^\w\- ]+/g, '_')}_${format(new Date(), 'yyyy-MM-dd')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Reads an exported workspace, throws when the file is not one
+export const parseWorkspaceFile = (text: string): Workspace => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== EXPORT_FORMAT || !parsed.state || !Array.isArray(parsed.state.rawData)) {
+    throw new Error('Not a workspace export');
+  }
+  return reviveWorkspace({ name: String(parsed.name || DEFAULT_WORKSPACE), updatedAt: parsed.updatedAt, state: parsed.state });
+};
@@ -19,12 +19,80 @@ export interface FinancialRecord {
   originalCategory?: string;
   description: string;
   amount: number;
+  customer?: string; // Relatie
+  ledger?: string; // Grootboekrekening
+  source?: string; // Upload the record came from ("file.xlsx" or "file.xlsx - Sheet")
+  matchedRule?: string; // Lookup rule that classified the record (see describeRule)
 }
 
+// Columns of an upload that can be assigned in the mapping wizard
+export type MappedField = 'date' | 'amount' | 'description' | 'revenueType' | 'id' | 'customer' | 'ledger';
+
+export enum DateFormat {
+  AUTO = 'AUTO',
+  DMY = 'dd-MM-yyyy',
+  MDY = 'MM-dd-yyyy',
+  YMD = 'yyyy-MM-dd'
+}
+
+export enum DecimalSeparator {
+  AUTO = 'AUTO',
+  COMMA = ',', // 1.234,56
+  DOT = '.'    // 1,234.56
+}
+
+export enum SourceSystem {
+  EXACT = 'Exact',
+  TWINFIELD = 'Twinfield',
+  AFAS = 'AFAS',
+  MONEYBIRD = 'Moneybird',
+  OTHER = 'Other'
+}
+
+export interface ColumnMapping {
+  fields: Partial<Record<MappedField, string>>; // Field -> header name as it appears in the file
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+export interface MappingProfile {
+  name: string;
+  sourceSystem: SourceSystem;
+  mapping: ColumnMapping;
+}
+
+export enum RuleMatchType {
+  CONTAINS = 'CONTAINS', // Substring anywhere in the field
+  WHOLE_WORD = 'WHOLE_WORD',
+  PREFIX = 'PREFIX', // Field starts with the term
+  EXACT = 'EXACT', // Whole field equals the term
+  REGEX = 'REGEX' // Case-insensitive regular expression
+}
+
+// Record fields a rule can be matched against
+export type RuleField = 'description' | 'originalCategory' | 'ledger' | 'customer';
+
+// The conditions are optional so rule sets from before they existed keep working
 export interface LookupRule {
   mainCategory: string;
   subCategory: string;
   searchTerm: string;
+  matchType?: RuleMatchType; // Default CONTAINS
+  fields?: RuleField[]; // Default description and original category
+  minAmount?: number;
+  maxAmount?: number;
+  validFrom?: string; // yyyy-MM-dd, inclusive
+  validTo?: string; // yyyy-MM-dd, inclusive
+  priority?: number; // Higher goes first; equal priorities keep the list order. Default 0
+}
+
+// Effect of a lookup rule at its position in the list, shown while editing it
+export interface RulePreview {
+  matched: number; // Records containing the search term
+  won: FinancialRecord[]; // Records the rule would classify
+  taken: { record: FinancialRecord; rule: LookupRule }[]; // Won records now classified by another rule
+  shadowed: { record: FinancialRecord; rule: LookupRule }[]; // Matches an earlier rule wins
+  newlyClassified: number; // Won records that are unmatched today
 }
 
 export interface MonthlyAggregatedData {
@@ -32,17 +100,221 @@ export interface MonthlyAggregatedData {
   displayDate: string;
   amount: number;
   revenueType: string;
+  subCategory?: string;
   prevYearAmount?: number;
+  recordIds: string[]; // Records summed into this month
+}
+
+// How the expected value for a data point is determined
+export enum AnomalyBaseline {
+  FLAT = 'FLAT',             // Mean/StdDev over every value of the revenue type
+  SAME_MONTH = 'SAME_MONTH', // Same calendar month in earlier years
+  STL = 'STL',               // Trend + seasonal decomposition
+  MEDIAN_MAD = 'MEDIAN_MAD', // Robust fallback when there is little history
+  QUARTILES = 'QUARTILES',   // Interquartile range of the series
+  PREVIOUS_MONTH = 'PREVIOUS_MONTH',
+  PREVIOUS_YEAR = 'PREVIOUS_YEAR' // Same month one year earlier
+}
+
+export enum AnomalyMethod {
+  ZSCORE = 'ZSCORE',                   // (value - expected) / stdDev against the selected baseline
+  MODIFIED_ZSCORE = 'MODIFIED_ZSCORE', // Median / MAD
+  IQR = 'IQR',                         // Distance outside Q1..Q3 in IQR units
+  PCT_PREV_MONTH = 'PCT_PREV_MONTH',   // % change vs. previous month
+  PCT_YOY = 'PCT_YOY'                  // % change vs. same month last year
+}
+
+export interface AnomalyThresholds {
+  low: number;
+  medium: number;
+  high: number;
+}
+
+export interface AnomalyTypeOverride {
+  method?: AnomalyMethod;
+  thresholds?: AnomalyThresholds;
+}
+
+export interface AnomalySettings {
+  method: AnomalyMethod;
+  seasonalBaseline: AnomalyBaseline; // Baseline for the Z-score method: FLAT, SAME_MONTH or STL
+  thresholds: Record<AnomalyMethod, AnomalyThresholds>;
+  typeOverrides: Record<string, AnomalyTypeOverride>; // Keyed by revenueType
+  minAbsoluteAmount: number; // Deviations from the expected value below this EUR amount are never flagged
+  bySubCategory: boolean;
 }
 
 export interface Anomaly {
-  id: string;
-  date: Date;
+  id: string; // revenueType|subCategory|YYYY-MM
+  date: Date; // First day of the month
   revenueType: string;
-  amount: number;
-  zScore: number;
+  subCategory?: string; // Only set when scoring per subcategory
+  amount: number; // Monthly total
+  expectedAmount: number;
+  baseline: AnomalyBaseline;
+  method: AnomalyMethod;
+  zScore: number; // Score under the method: (modified) Z, IQR units or % change
   severity: 'LOW' | 'MEDIUM' | 'HIGH';
   description: string;
+  recordIds: string[]; // Records behind the monthly total, for drill-down
+}
+
+export enum ForecastMethod {
+  HOLT_WINTERS = 'HOLT_WINTERS', // Level + trend + 12-month season
+  HOLT_LINEAR = 'HOLT_LINEAR',   // Level + trend, when there is less than two years of history
+  RUN_RATE = 'RUN_RATE'          // Average of the last months, for very short series
+}
+
+export interface ForecastPoint {
+  month: string; // YYYY-MM
+  forecast: number;
+  lower: number; // 95% prediction interval
+  upper: number;
+}
+
+export interface RevenueForecast {
+  revenueType: string;
+  method: ForecastMethod;
+  lastActualMonth: string; // YYYY-MM
+  points: ForecastPoint[];
+  total: Omit<ForecastPoint, 'month'>; // Whole horizon; the interval comes from the summed variance, not the summed bounds
+}
+
+export enum ChartView {
+  LINES = 'LINES',
+  STACKED = 'STACKED',                 // Stacked area, absolute amounts
+  STACKED_PERCENT = 'STACKED_PERCENT', // Stacked area, share of the monthly total
+  DONUT = 'DONUT',                     // Composition of the analysis window
+  WATERFALL = 'WATERFALL'              // Change in total revenue between two periods
+}
+
+export enum ComparisonBasis {
+  PREVIOUS_PERIOD = 'PREVIOUS_PERIOD', // Equally long window right before the analysis window
+  PREVIOUS_YEAR = 'PREVIOUS_YEAR'      // Same window one year earlier
+}
+
+// One bar of the revenue bridge: the two totals, or the contribution of a revenue type in between
+export interface RevenueBridgeStep {
+  name: string;
+  kind: 'total' | 'increase' | 'decrease';
+  value: number;            // Total, or the change for a revenue type
+  range: [number, number];  // Vertical extent of the floating bar
+}
+
+export enum ImportIssueType {
+  INVALID_DATE = 'INVALID_DATE',         // Rejected
+  ZERO_AMOUNT = 'ZERO_AMOUNT',           // Rejected
+  INVALID_AMOUNT = 'INVALID_AMOUNT',     // Rejected
+  DUPLICATE_ID = 'DUPLICATE_ID',         // Warning
+  FUTURE_DATE = 'FUTURE_DATE',           // Warning
+  AMBIGUOUS_AMOUNT = 'AMBIGUOUS_AMOUNT'  // Warning: "12.345" is read as 12345, but could be 12.345
+}
+
+export interface ImportIssue {
+  rowNumber: number; // Spreadsheet row, header = 1
+  type: ImportIssueType;
+  rejected: boolean;
+  value: string;
+}
+
+// One sheet (or CSV file) of an upload
+export interface UploadSheet {
+  fileName: string;
+  sheetName: string;
+  source: string; // Tag stored on the imported records
+  data: any[][];
+}
+
+export interface ImportReport {
+  fileName: string; // Source tag of the sheet
+  importedAt: Date;
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  acceptedTotal: number; // Sum of the accepted amounts, to reconcile with the ledger
+  duplicatesRemoved: number; // Accepted rows already present from another source
+  issues: ImportIssue[];
+}
+
+export interface BudgetEntry {
+  month: string; // YYYY-MM
+  revenueType: string;
+  amount: number;
+}
+
+export interface BudgetVariance {
+  month: string; // YYYY-MM
+  revenueType: string;
+  actual: number;
+  budget: number;
+  variance: number; // actual - budget
+  variancePct?: number; // undefined when the budget is 0
+  severity?: 'LOW' | 'MEDIUM' | 'HIGH'; // Set when |variancePct| exceeds the threshold
+}
+
+// Headline number with one sparkline point per month of the analysis window
+export interface KpiMetric {
+  value?: number; // Undefined when there is nothing to compare against
+  sparkline: number[];
+}
+
+export interface KpiSummary {
+  months: string[]; // YYYY-MM, the sparkline points
+  totalRevenue: KpiMetric;
+  growthPrevPeriod: KpiMetric;
+  growthPrevYear: KpiMetric;
+  recurringShare: KpiMetric; // %
+  mrr: KpiMetric;            // Recurring revenue of the last month with data; ARR is 12x
+  averageMonthly: KpiMetric;
+  topContributor: KpiMetric & { name?: string; share?: number; kind: 'customer' | 'revenueType' };
+}
+
+export interface CustomerSummary {
+  customer: string;
+  total: number;
+  share: number;           // % of the revenue with a customer
+  cumulativeShare: number; // % up to and including this customer, largest first (Pareto curve)
+  transactions: number;
+  lastDate: Date;
+}
+
+// Regular customer whose recent revenue fell well below, or stopped compared with, their usual level
+export interface ChurnWarning {
+  customer: string;
+  kind: 'stopped' | 'declined';
+  baselineMonthly: number; // Average per month before the recent months
+  recentMonthly: number;   // Average per month over the recent months
+  changePct: number;
+  lastMonth: string;       // YYYY-MM of the last revenue
+}
+
+export interface CustomerAnalysis {
+  customers: CustomerSummary[];      // Largest first
+  herfindahl: number;                // Herfindahl-Hirschman index, 0-10000
+  paretoCount: number;               // Customers that together make 80% of the revenue
+  coveragePct: number;               // % of the revenue that has a customer
+  churnWarnings: ChurnWarning[];
+}
+
+// Month-over-month change in recurring revenue; contraction and churned are negative
+export interface MrrMovement {
+  month: string; // YYYY-MM
+  startMrr: number;
+  newMrr: number;      // Customers without any earlier recurring revenue
+  expansion: number;
+  contraction: number;
+  churned: number;
+  reactivated: number; // Customers returning after at least one month without
+  endMrr: number;
+}
+
+export interface MrrAnalysis {
+  movements: MrrMovement[];
+  startMrr: number;  // MRR of the month before the window
+  endMrr: number;
+  nrr?: number;      // Net revenue retention of the customers at the start, %
+  grr?: number;      // Gross revenue retention (no expansion counted), %
+  customers: number; // Customers with MRR in the last month
 }
 
 export interface Comment {
@@ -53,9 +325,120 @@ export interface Comment {
   timestamp: Date;
 }
 
+export type InsightTrend = 'up' | 'down' | 'stable';
+
 export interface AIInsight {
   revenueType: string;
-  insight: string;
+  insight: string; // One or two sentence summary
+  trend?: InsightTrend;
+  growthPct?: number; // Year on year
+  drivers?: string[];
+  risks?: string[];
+  actions?: string[];
+  inputHash?: string; // Series, language and model the insight was made from; absent when it failed
+  failed?: boolean;
+}
+
+export type InsightStatus = 'queued' | 'running' | 'done' | 'cached' | 'failed';
+
+export enum InsightProviderType {
+  GEMINI = 'GEMINI',
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE', // Self-hosted endpoint such as Ollama or llama.cpp
+  OFFLINE = 'OFFLINE' // Rule-based narrative, no data leaves the browser
+}
+
+export interface InsightProviderSettings {
+  provider: InsightProviderType;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKeys: Record<InsightProviderType, string>; // Per provider, so a key never goes to another endpoint; Gemini falls back to the key of the build
+}
+
+// What the insight prompt gets to see of one revenue type
+export interface InsightContext {
+  revenueType: string;
+  months: { month: string; amount: number; prevYearAmount?: number }[]; // Gaps filled with 0
+  growthPct?: number; // Last twelve months against the same months a year earlier
+  quarterChangePct?: number;
+  trend: InsightTrend; // Last quarter against the quarter before
+  anomalies: { month: string; amount: number; expectedAmount: number; severity: Anomaly['severity']; description: string }[];
+}
+
+// Local calculations the revenue chat can ask for; months are YYYY-MM and inclusive
+export type RevenueQueryGrouping = 'month' | 'quarter' | 'year' | 'revenueType' | 'subCategory' | 'customer';
+export type RevenueMoverDimension = 'revenueType' | 'subCategory' | 'customer';
+
+export type RevenueQuery =
+  | { name: 'totals'; groupBy: RevenueQueryGrouping; start?: string; end?: string; revenueType?: string; customer?: string }
+  | {
+      name: 'topMovers'; dimension: RevenueMoverDimension; start: string; end: string;
+      compareStart?: string; compareEnd?: string; // Defaults to the equally long window just before
+      revenueType?: string; limit?: number;
+    }
+  | { name: 'anomalies'; start?: string; end?: string; revenueType?: string };
+
+export interface RevenueQueryRow {
+  key: string;
+  amount: number;
+  count?: number;
+  previous?: number;
+  change?: number;
+  changePct?: number;
+  expected?: number;
+  severity?: Anomaly['severity'];
+  description?: string;
+  comments?: string[];
+}
+
+export interface RevenueQueryResult {
+  query: RevenueQuery;
+  label: string; // What was calculated, in the user's language
+  rows: RevenueQueryRow[];
+  total: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  results?: RevenueQueryResult[]; // The calculations an answer is based on
+}
+
+// Proposed classification for an unmatched description
+export interface CategorySuggestion {
+  description: string;
+  mainCategory: string;
+  subCategory: string;
+  confidence: number; // 0-1
+  source: 'ai' | 'similarity';
+}
+
+// Everything needed to pick up an analysis where it was left
+export interface WorkspaceState {
+  appName: string;
+  themeId: string;
+  language: Language;
+  rawData: FinancialRecord[];
+  lookupRules: LookupRule[];
+  comments: Comment[];
+  aiInsights: Record<string, AIInsight>;
+  anomalySettings: AnomalySettings;
+  budget: BudgetEntry[];
+  budgetThreshold: number;
+  dateRange: DateRangeOption;
+  customStart: string;
+  customEnd: string;
+  selectedRevenueTypes: string[];
+  selectedSubCategories?: string[]; // subCategoryKey values; absent in workspaces saved before the drill-down
+  hiddenSources: string[];
+  showYoY: boolean;
+  forecastHorizon: number;
+}
+
+export interface Workspace {
+  name: string;
+  updatedAt: Date;
+  state: WorkspaceState;
 }
 
 export interface Translations {
@@ -1,5 +1,12 @@
-import { FinancialRecord, Anomaly, LookupRule, Language } from './types';
-import { format, parse, subMonths, isAfter, isBefore, startOfDay, endOfDay } from 'date-fns';
+import { 
+  FinancialRecord, Anomaly, AnomalyBaseline, AnomalyMethod, AnomalySettings, LookupRule, Language, MonthlyAggregatedData,
+  MappedField, ColumnMapping, MappingProfile, DateFormat, DecimalSeparator, ImportIssue, ImportIssueType, ImportReport,
+  RulePreview, RuleMatchType, RuleField, ComparisonBasis, RevenueBridgeStep
+} from './types';
+import { ISSUE_LABELS } from './constants';
+import {
+  format, parse, subMonths, subYears, isAfter, isBefore, startOfDay, endOfDay, endOfMonth, differenceInCalendarMonths
+} from 'date-fns';
 import { nl, enUS } from 'date-fns/locale';
 import * as XLSX from 'xlsx';
 
@@ -14,60 +21,662 @@ export const formatDate = (date: Date, lang: Language): string => {
   return format(date, 'dd MMM yyyy', { locale: lang === Language.NL ? nl : enUS });
 };
 
-// Statistical Anomaly Detection (Z-Score)
-export const detectAnomalies = (data: FinancialRecord[]): Anomaly[] => {
-  const anomalies: Anomaly[] = [];
-  const groupedByType: Record<string, number[]> = {};
+export const formatMonth = (date: Date, lang: Language): string => {
+  return format(date, 'MMMM yyyy', { locale: lang === Language.NL ? nl : enUS });
+};
 
-  // Group amounts by revenue type to calculate stats
-  data.forEach(record => {
-    if (!groupedByType[record.revenueType]) {
-      groupedByType[record.revenueType] = [];
+// Spreadsheet cell -> Date. Handles Excel serial numbers and date strings. With an explicit
+// format the string is parsed as such (-, / and . separators are all accepted); AUTO tries
+// ISO first and falls back to dd-mm-yyyy / dd/mm/yyyy.
+export const parseDateValue = (rawDate: any, dateFormat: DateFormat = DateFormat.AUTO): Date => {
+  if (rawDate instanceof Date) return rawDate;
+  if (typeof rawDate === 'number') return new Date(Math.round((rawDate - 25569)*86400*1000));
+
+  if (typeof rawDate === 'string' && dateFormat !== DateFormat.AUTO) {
+    const normalized = rawDate.trim().split(/[\sT]/)[0].replace(/[/.]/g, '-');
+    return parse(normalized, dateFormat, new Date());
+  }
+
+  let dateObj = new Date(rawDate);
+  if (typeof rawDate === 'string') {
+      if (isNaN(dateObj.getTime())) {
+        const parts = rawDate.split(/[-/]/);
+        if (parts.length === 3) dateObj = new Date(`${parts[2]}-${parts[1]}-${parts[0]}`);
+      }
+  }
+  return dateObj;
+};
+
+// Spreadsheet cell -> number. With an explicit decimal separator the other one is treated as
+// thousands separator; AUTO accepts "1234,56", "1.234,56" and "1,234.56", and reads dots between
+// groups of three digits ("12.345", "1.234.567") as Dutch thousands separators. Unparseable values become 0.
+export const parseAmount = (rawAmount: any, decimalSeparator: DecimalSeparator = DecimalSeparator.AUTO): number => {
+  let amount = typeof rawAmount === 'number' ? rawAmount : 0;
+  if (typeof rawAmount === 'string') {
+    let clean = rawAmount.trim().replace(/[€\s]|EUR/g, '');
+    if (decimalSeparator === DecimalSeparator.COMMA) clean = clean.replace(/\./g, '').replace(',', '.');
+    else if (decimalSeparator === DecimalSeparator.DOT) clean = clean.replace(/,/g, '');
+    else if (clean.includes(',') && !clean.includes('.')) clean = clean.replace(',', '.');
+    else if (/^-?[1-9]\d{0,2}(\.\d{3})+$/.test(clean)) clean = clean.replace(/\./g, '');
+    else if (clean.includes('.') && clean.includes(',')) {
+        if (clean.lastIndexOf(',') > clean.lastIndexOf('.')) clean = clean.replace(/\./g, '').replace(',', '.');
+        else clean = clean.replace(/,/g, '');
+    }
+    amount = parseFloat(clean);
+  }
+  return isNaN(amount) ? 0 : amount;
+};
+
+// --- Column mapping ---
+
+// Header keywords per field, most specific first. A header is assigned to at most one field.
+const FIELD_KEYWORDS: [MappedField, string[]][] = [
+  ['date', ['transactiedatum', 'boekdatum', 'factuurdatum', 'datum', 'date']],
+  ['amount', ['bedrag', 'amount', 'saldo', 'omzet']],
+  ['id', ['boekstuknummer', 'boekstuk', 'factuurnummer', 'invoice', 'id', 'transactie']],
+  ['customer', ['relatie', 'debiteur', 'klant', 'customer', 'contact']],
+  ['ledger', ['grootboekrekening', 'grootboek', 'ledger', 'gl account']],
+  ['revenueType', ['omzetsoort', 'inkomsten', 'revenue', 'kostensoort', 'category', 'categorie']],
+  ['description', ['omschrijving', 'description', 'naam', 'memo']]
+];
+
+// Keywords that only match as a whole word, even though they are long: "omzet" must not claim "Omzetsoort"
+const WHOLE_WORD_KEYWORDS = new Set(['omzet']);
+
+// Keyword matches as a whole word (so "id" does not match "relatie" or "periode")
+const headerMatches = (header: string, keyword: string): boolean =>
+  new RegExp(`(^|[^a-z])${keyword}([^a-z]|$)`).test(header) ||
+  (keyword.length > 4 && !WHOLE_WORD_KEYWORDS.has(keyword) && header.includes(keyword));
+
+// First guess at a mapping from the headers of an upload; the wizard lets the user correct it
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => String(h).toLowerCase().trim());
+  const used = new Set<number>();
+  const fields: Partial<Record<MappedField, string>> = {};
+
+  FIELD_KEYWORDS.forEach(([field, keywords]) => {
+    for (const keyword of keywords) {
+      const idx = normalized.findIndex((h, i) => !used.has(i) && headerMatches(h, keyword));
+      if (idx !== -1) {
+        fields[field] = headers[idx];
+        used.add(idx);
+        return;
+      }
     }
-    groupedByType[record.revenueType].push(record.amount);
   });
 
-  // Calculate Mean and StdDev per type
-  const stats: Record<string, { mean: number; stdDev: number }> = {};
-  Object.keys(groupedByType).forEach(type => {
-    const values = groupedByType[type];
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-    const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-    stats[type] = { mean, stdDev: Math.sqrt(variance) };
+  return { fields, dateFormat: DateFormat.AUTO, decimalSeparator: DecimalSeparator.AUTO };
+};
+
+// A profile applies when every header it maps is present in the upload
+export const findMatchingProfile = (headers: string[], profiles: MappingProfile[]): MappingProfile | undefined => {
+  const available = new Set(headers.map(h => String(h).trim()));
+  return profiles.find(p => {
+    const mapped = Object.values(p.mapping.fields).filter(Boolean) as string[];
+    return mapped.length > 0 && mapped.every(h => available.has(h));
   });
+};
 
-  // Identify anomalies
-  data.forEach(record => {
-    const { mean, stdDev } = stats[record.revenueType];
-    if (stdDev === 0) return;
+// "12.345" or "12,345": one separator followed by exactly three digits reads as either a
+// thousands separator or a decimal separator. Only ambiguous when the separator is guessed.
+const isAmbiguousAmount = (rawAmount: any, decimalSeparator: DecimalSeparator): boolean =>
+  decimalSeparator === DecimalSeparator.AUTO && typeof rawAmount === 'string' &&
+  /^-?\d{1,3}[.,]\d{3}$/.test(rawAmount.trim().replace(/[€\s]|EUR/g, ''));
 
-    const zScore = (record.amount - mean) / stdDev;
-    
-    // Threshold > 2 Standard Deviations
-    if (Math.abs(zScore) > 2) {
-      let severity: 'LOW' | 'MEDIUM' | 'HIGH' = 'LOW';
-      if (Math.abs(zScore) > 4) severity = 'HIGH';
-      else if (Math.abs(zScore) > 3) severity = 'MEDIUM';
-
-      // For Revenue: Positive Spike is Good (Greenish logic in head, but still anomaly), Negative is Bad.
-      const descNL = zScore > 0 ? 'Opvallende Omzetpiek' : 'Onverwachte Omzetdaling';
-      const descEN = zScore > 0 ? 'Revenue Spike' : 'Revenue Drop';
-
-      anomalies.push({
-        id: record.id,
-        date: record.date,
+// Empty or a written-out zero ("0", "0,00", "€ 0.00"), as opposed to text that is not a number
+const isZeroAmount = (rawAmount: any): boolean =>
+  rawAmount === undefined || rawAmount === null || /^[-+]?[0.,\s€]*(EUR)?$/.test(String(rawAmount).trim());
+
+/**
+ * Turns the rows of an upload into records and reports on every row: rows without a valid date
+ * or with a zero/unreadable amount are rejected; duplicate ids, future dates and amounts with an
+ * ambiguous separator are accepted but listed as warnings. Row numbers are spreadsheet rows
+ * (the header is row 1).
+ */
+export const parseWithMapping = (
+  data: any[][],
+  mapping: ColumnMapping,
+  fileName: string = ''
+): { records: FinancialRecord[]; report: ImportReport } => {
+  const headers = data[0].map(h => String(h).trim());
+  const col = (field: MappedField) => {
+    const header = mapping.fields[field];
+    return header ? headers.indexOf(header) : -1;
+  };
+  const dateIdx = col('date');
+  const amountIdx = col('amount');
+  const idIdx = col('id');
+  const descIdx = col('description');
+  const typeIdx = col('revenueType');
+  const customerIdx = col('customer');
+  const ledgerIdx = col('ledger');
+
+  const records: FinancialRecord[] = [];
+  const issues: ImportIssue[] = [];
+  const report: ImportReport = {
+    fileName, importedAt: new Date(), totalRows: data.length - 1, acceptedRows: 0, rejectedRows: 0, acceptedTotal: 0,
+    duplicatesRemoved: 0, issues
+  };
+  if (dateIdx === -1 || amountIdx === -1) {
+    report.rejectedRows = report.totalRows;
+    return { records, report };
+  }
+
+  const cell = (row: any[], idx: number) => idx !== -1 && row[idx] !== undefined && row[idx] !== null ? String(row[idx]).trim() : '';
+  const today = endOfDay(new Date());
+  const seenIds = new Map<string, number>();
+
+  data.slice(1).forEach((row, idx) => {
+    const rowNumber = idx + 2;
+    const rawDate = row[dateIdx];
+    const rawAmount = row[amountIdx];
+    const rawType = cell(row, typeIdx);
+    const record: FinancialRecord = {
+      id: cell(row, idIdx) || `row-${idx}`,
+      date: parseDateValue(rawDate, mapping.dateFormat),
+      revenueType: rawType || 'Onbekend',
+      originalCategory: rawType,
+      description: cell(row, descIdx),
+      amount: parseAmount(rawAmount, mapping.decimalSeparator),
+      customer: cell(row, customerIdx) || undefined,
+      ledger: cell(row, ledgerIdx) || undefined
+    };
+
+    const reject = (type: ImportIssueType, value: any) => {
+      issues.push({ rowNumber, type, rejected: true, value: String(value ?? '') });
+      report.rejectedRows++;
+    };
+    if (!(record.date instanceof Date) || isNaN(record.date.getTime())) return reject(ImportIssueType.INVALID_DATE, rawDate);
+    if (record.amount === 0) {
+      return reject(isZeroAmount(rawAmount) ? ImportIssueType.ZERO_AMOUNT : ImportIssueType.INVALID_AMOUNT, rawAmount);
+    }
+
+    if (isAfter(record.date, today)) {
+      issues.push({ rowNumber, type: ImportIssueType.FUTURE_DATE, rejected: false, value: format(record.date, 'yyyy-MM-dd') });
+    }
+    if (isAmbiguousAmount(rawAmount, mapping.decimalSeparator)) {
+      issues.push({ rowNumber, type: ImportIssueType.AMBIGUOUS_AMOUNT, rejected: false, value: `${rawAmount} -> ${record.amount}` });
+    }
+    if (idIdx !== -1 && record.id) {
+      const firstRow = seenIds.get(record.id);
+      if (firstRow !== undefined) {
+        issues.push({ rowNumber, type: ImportIssueType.DUPLICATE_ID, rejected: false, value: `${record.id} (${firstRow})` });
+      } else {
+        seenIds.set(record.id, rowNumber);
+      }
+    }
+
+    records.push(record);
+    report.acceptedRows++;
+    report.acceptedTotal += record.amount;
+  });
+
+  issues.sort((a, b) => a.rowNumber - b.rowNumber);
+  return { records, report };
+};
+
+// Records only, e.g. for the preview in the mapping wizard
+export const applyColumnMapping = (data: any[][], mapping: ColumnMapping): FinancialRecord[] =>
+  parseWithMapping(data, mapping).records;
+
+// Validation report as xlsx: a summary sheet plus one row per issue
+export const downloadImportReport = (report: ImportReport, lang: Language) => {
+  const wb = XLSX.utils.book_new();
+
+  const summary = [
+    [lang === Language.NL ? 'Bestand' : 'File', report.fileName],
+    [lang === Language.NL ? 'Geïmporteerd op' : 'Imported at', format(report.importedAt, 'yyyy-MM-dd HH:mm')],
+    [lang === Language.NL ? 'Totaal rijen' : 'Total rows', report.totalRows],
+    [lang === Language.NL ? 'Geaccepteerd' : 'Accepted', report.acceptedRows],
+    [lang === Language.NL ? 'Afgewezen' : 'Rejected', report.rejectedRows],
+    [lang === Language.NL ? 'Totaalbedrag geaccepteerd' : 'Accepted total', report.acceptedTotal],
+    [lang === Language.NL ? 'Dubbel met andere bron (verwijderd)' : 'Duplicate of another source (removed)', report.duplicatesRemoved],
+    ...Object.values(ImportIssueType).map(type => [
+      ISSUE_LABELS[type][lang], report.issues.filter(i => i.type === type).length
+    ])
+  ];
+  const wsSummary = XLSX.utils.aoa_to_sheet(summary);
+  wsSummary['!cols'] = [{ wch: 35 }, { wch: 30 }];
+  XLSX.utils.book_append_sheet(wb, wsSummary, lang === Language.NL ? "Samenvatting" : "Summary");
+
+  const issueHeaders = lang === Language.NL ? ['Rij', 'Status', 'Reden', 'Waarde'] : ['Row', 'Status', 'Reason', 'Value'];
+  const issueRows = report.issues.map(i => [
+    i.rowNumber,
+    i.rejected ? (lang === Language.NL ? 'Afgewezen' : 'Rejected') : (lang === Language.NL ? 'Waarschuwing' : 'Warning'),
+    ISSUE_LABELS[i.type][lang],
+    i.value
+  ]);
+  const wsIssues = XLSX.utils.aoa_to_sheet([issueHeaders, ...issueRows]);
+  wsIssues['!cols'] = [{ wch: 8 }, { wch: 14 }, { wch: 40 }, { wch: 40 }];
+  XLSX.utils.book_append_sheet(wb, wsIssues, lang === Language.NL ? "Bevindingen" : "Issues");
+
+  XLSX.writeFile(wb, "import_validatierapport.xlsx");
+};
+
+// --- Statistical helpers ---
+const MAD_SCALE = 1.4826; // Makes the MAD comparable to a standard deviation for normal data
+const MIN_SAME_MONTH_HISTORY = 2; // Earlier same-month values needed for a SAME_MONTH baseline
+const MIN_STL_MONTHS = 24; // Two full seasonal cycles before trend + season can be separated
+const MIN_RELATIVE_SPREAD = 0.05; // Floor the spread at 5% of the expected value (avoids huge scores on tiny samples)
+
+const mean = (values: number[]): number => values.reduce((sum, val) => sum + val, 0) / values.length;
+
+const stdDev = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, val) => sum + Math.pow(val - m, 2), 0) / values.length);
+};
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Linear interpolation between closest ranks
+const quantile = (values: number[], q: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+const medianAbsoluteDeviation = (values: number[]): number => {
+  const med = median(values);
+  return median(values.map(v => Math.abs(v - med)));
+};
+
+// Months since year 0, so that month arithmetic is simple integer math
+const toMonthIndex = (date: Date): number => date.getFullYear() * 12 + date.getMonth();
+
+interface BaselineEstimate {
+  baseline: AnomalyBaseline;
+  expected: number;
+  spread: number;
+}
+
+interface MonthlyPoint {
+  monthIndex: number;
+  value: number;
+}
+
+const estimateFlat = (values: number[]): BaselineEstimate => ({
+  baseline: AnomalyBaseline.FLAT, expected: mean(values), spread: stdDev(values)
+});
+
+const estimateMedianMad = (values: number[]): BaselineEstimate => ({
+  baseline: AnomalyBaseline.MEDIAN_MAD, expected: median(values), spread: MAD_SCALE * medianAbsoluteDeviation(values)
+});
+
+// Compare against the same calendar month in earlier years
+const estimateSameMonth = (monthIndex: number, series: MonthlyPoint[]): BaselineEstimate | null => {
+  const history = series
+    .filter(p => p.monthIndex < monthIndex && (monthIndex - p.monthIndex) % 12 === 0)
+    .map(p => p.value);
+  if (history.length < MIN_SAME_MONTH_HISTORY) return null;
+
+  const expected = mean(history);
+  return {
+    baseline: AnomalyBaseline.SAME_MONTH,
+    expected,
+    spread: Math.max(stdDev(history), Math.abs(expected) * MIN_RELATIVE_SPREAD)
+  };
+};
+
+// STL-style decomposition: a local linear fit over a 13-month window as trend, the mean
+// detrended value per calendar month as seasonal component, and the MAD of the
+// remainder as spread. Gaps are tolerated because the window is date-based.
+const buildStlModel = (series: MonthlyPoint[]): ((monthIndex: number) => BaselineEstimate) | null => {
+  if (series.length === 0) return null;
+  const first = Math.min(...series.map(p => p.monthIndex));
+  const last = Math.max(...series.map(p => p.monthIndex));
+  if (last - first + 1 < MIN_STL_MONTHS) return null;
+
+  // Local linear fit keeps the trend unbiased at the edges of a growing series
+  const trendAt = (monthIndex: number): number => {
+    const window = series.filter(p => Math.abs(p.monthIndex - monthIndex) <= 6);
+    const xMean = mean(window.map(p => p.monthIndex));
+    const yMean = mean(window.map(p => p.value));
+    const sxx = window.reduce((sum, p) => sum + Math.pow(p.monthIndex - xMean, 2), 0);
+    if (sxx === 0) return yMean;
+    const slope = window.reduce((sum, p) => sum + (p.monthIndex - xMean) * (p.value - yMean), 0) / sxx;
+    return yMean + slope * (monthIndex - xMean);
+  };
+
+  const detrendedByMonth: Record<number, number[]> = {};
+  series.forEach(p => {
+    const calendarMonth = p.monthIndex % 12;
+    if (!detrendedByMonth[calendarMonth]) detrendedByMonth[calendarMonth] = [];
+    detrendedByMonth[calendarMonth].push(p.value - trendAt(p.monthIndex));
+  });
+  const seasonalAt = (monthIndex: number): number => {
+    const values = detrendedByMonth[monthIndex % 12];
+    return values ? mean(values) : 0;
+  };
+
+  const residuals = series.map(p => p.value - trendAt(p.monthIndex) - seasonalAt(p.monthIndex));
+  const spread = MAD_SCALE * medianAbsoluteDeviation(residuals);
+
+  return (monthIndex: number) => {
+    const expected = trendAt(monthIndex) + seasonalAt(monthIndex);
+    return {
+      baseline: AnomalyBaseline.STL,
+      expected,
+      spread: Math.max(spread, Math.abs(expected) * MIN_RELATIVE_SPREAD)
+    };
+  };
+};
+
+const fromMonthIndex = (monthIndex: number): Date => new Date(Math.floor(monthIndex / 12), monthIndex % 12, 1);
+
+// Monthly totals per revenue type (and optionally per subcategory), keeping track of the
+// records behind each total so that anomalies can be drilled down.
+export const aggregateMonthly = (data: FinancialRecord[], bySubCategory: boolean = false): MonthlyAggregatedData[] => {
+  const grouped: Record<string, MonthlyAggregatedData> = {};
+
+  data.forEach(record => {
+    const month = format(record.date, 'yyyy-MM');
+    const subCategory = bySubCategory ? (record.subCategory || '') : undefined;
+    const key = `${record.revenueType}|${subCategory ?? ''}|${month}`;
+    if (!grouped[key]) {
+      grouped[key] = {
+        month,
+        displayDate: format(record.date, 'MMM yy'),
+        amount: 0,
         revenueType: record.revenueType,
-        amount: record.amount,
-        zScore,
-        severity,
-        description: descNL 
-      });
+        subCategory,
+        recordIds: []
+      };
+    }
+    grouped[key].amount += record.amount;
+    grouped[key].recordIds.push(record.id);
+  });
+
+  return Object.values(grouped).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+// Key of a subcategory within its main category, as stored in the type filter
+export const subCategoryKey = (revenueType: string, subCategory?: string): string =>
+  `${revenueType}|${subCategory || ''}`;
+
+// Type filter over both levels: a selected main category includes all of its subcategories
+export const matchesTypeSelection = (record: FinancialRecord, types: string[], subCategories: string[]): boolean =>
+  (types.length === 0 && subCategories.length === 0) ||
+  types.includes(record.revenueType) ||
+  subCategories.includes(subCategoryKey(record.revenueType, record.subCategory));
+
+// Subcategories per main category, sorted
+export const groupSubCategories = (data: FinancialRecord[]): Record<string, string[]> => {
+  const groups: Record<string, Set<string>> = {};
+  data.forEach(r => {
+    if (!groups[r.revenueType]) groups[r.revenueType] = new Set();
+    groups[r.revenueType].add(r.subCategory || '');
+  });
+  return Object.fromEntries(Object.entries(groups).map(([type, subs]) => [type, Array.from(subs).sort()]));
+};
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  method: AnomalyMethod.ZSCORE,
+  seasonalBaseline: AnomalyBaseline.STL,
+  thresholds: {
+    [AnomalyMethod.ZSCORE]: { low: 2, medium: 3, high: 4 },
+    [AnomalyMethod.MODIFIED_ZSCORE]: { low: 3.5, medium: 5, high: 7 },
+    [AnomalyMethod.IQR]: { low: 1.5, medium: 3, high: 4.5 },
+    [AnomalyMethod.PCT_PREV_MONTH]: { low: 25, medium: 50, high: 100 },
+    [AnomalyMethod.PCT_YOY]: { low: 25, medium: 50, high: 100 }
+  },
+  typeOverrides: {},
+  minAbsoluteAmount: 0,
+  bySubCategory: false
+};
+
+// Method and thresholds that apply to a revenue type, after per-type overrides
+export const resolveAnomalyMethod = (settings: AnomalySettings, revenueType: string) => {
+  const override = settings.typeOverrides[revenueType];
+  const method = override?.method ?? settings.method;
+  return { method, thresholds: override?.thresholds ?? settings.thresholds[method] };
+};
+
+interface PointScore {
+  baseline: AnomalyBaseline;
+  expected: number;
+  score: number;
+}
+
+// Returns a scorer for one monthly series under the given method
+const buildScorer = (
+  method: AnomalyMethod,
+  seasonalBaseline: AnomalyBaseline,
+  series: MonthlyPoint[]
+): ((point: MonthlyPoint) => PointScore | null) => {
+  const values = series.map(p => p.value);
+  const byMonth: Record<number, number> = {};
+  series.forEach(p => { byMonth[p.monthIndex] = p.value; });
+
+  const fromEstimate = (point: MonthlyPoint, estimate: BaselineEstimate): PointScore | null =>
+    estimate.spread === 0 ? null : {
+      baseline: estimate.baseline,
+      expected: estimate.expected,
+      score: (point.value - estimate.expected) / estimate.spread
+    };
+
+  const percentChange = (baseline: AnomalyBaseline, lag: number) => (point: MonthlyPoint): PointScore | null => {
+    const previous = byMonth[point.monthIndex - lag];
+    if (previous === undefined || previous === 0) return null;
+    return { baseline, expected: previous, score: (point.value - previous) / Math.abs(previous) * 100 };
+  };
+
+  switch (method) {
+    case AnomalyMethod.MODIFIED_ZSCORE: {
+      const robust = estimateMedianMad(values);
+      return point => fromEstimate(point, robust);
+    }
+    case AnomalyMethod.IQR: {
+      const q1 = quantile(values, 0.25);
+      const q3 = quantile(values, 0.75);
+      const iqr = q3 - q1;
+      const expected = median(values);
+      return point => {
+        if (iqr === 0) return null;
+        const score = point.value > q3 ? (point.value - q3) / iqr : point.value < q1 ? (point.value - q1) / iqr : 0;
+        return { baseline: AnomalyBaseline.QUARTILES, expected, score };
+      };
+    }
+    case AnomalyMethod.PCT_PREV_MONTH:
+      return percentChange(AnomalyBaseline.PREVIOUS_MONTH, 1);
+    case AnomalyMethod.PCT_YOY:
+      return percentChange(AnomalyBaseline.PREVIOUS_YEAR, 12);
+    default: {
+      const flat = estimateFlat(values);
+      const robust = estimateMedianMad(values);
+      const stlModel = seasonalBaseline === AnomalyBaseline.STL ? buildStlModel(series) : null;
+      return point => {
+        let estimate: BaselineEstimate | null = null;
+        if (seasonalBaseline === AnomalyBaseline.FLAT) estimate = flat;
+        else if (seasonalBaseline === AnomalyBaseline.SAME_MONTH) estimate = estimateSameMonth(point.monthIndex, series);
+        else if (stlModel) estimate = stlModel(point.monthIndex);
+        return fromEstimate(point, estimate || robust);
+      };
+    }
+  }
+};
+
+// Fills prevYearAmount with the total of the same month one year earlier (same revenue
+// type and subcategory). Left undefined when that month has no data.
+export const addPrevYearAmounts = (aggregates: MonthlyAggregatedData[]): MonthlyAggregatedData[] => {
+  const totals: Record<string, number> = {};
+  aggregates.forEach(a => { totals[`${a.revenueType}|${a.subCategory ?? ''}|${a.month}`] = a.amount; });
+
+  return aggregates.map(a => {
+    const prevMonth = format(subMonths(parse(a.month, 'yyyy-MM', new Date()), 12), 'yyyy-MM');
+    return { ...a, prevYearAmount: totals[`${a.revenueType}|${a.subCategory ?? ''}|${prevMonth}`] };
+  });
+};
+
+// 32-bit FNV-1a as hex: a short, stable cache key, not a security hash
+export const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Growth in % from previous to current; undefined when there is nothing to compare against
+export const calculateGrowth = (current: number, previous: number | undefined): number | undefined => {
+  if (previous === undefined || previous === 0) return undefined;
+  return (current - previous) / Math.abs(previous) * 100;
+};
+
+// Window to compare the analysis window against, in whole months
+export const getComparisonBounds = (bounds: { start: Date; end: Date }, basis: ComparisonBasis): { start: Date; end: Date } => {
+  if (basis === ComparisonBasis.PREVIOUS_YEAR) {
+    return { start: subYears(bounds.start, 1), end: endOfMonth(subYears(bounds.end, 1)) };
+  }
+  const months = differenceInCalendarMonths(bounds.end, bounds.start) + 1;
+  return { start: subMonths(bounds.start, months), end: endOfMonth(subMonths(bounds.end, months)) };
+};
+
+// Total per revenue type over the months of a window
+export const sumByRevenueType = (aggregates: MonthlyAggregatedData[], bounds: { start: Date; end: Date }): Record<string, number> => {
+  const startMonth = format(bounds.start, 'yyyy-MM');
+  const endMonth = format(bounds.end, 'yyyy-MM');
+  const totals: Record<string, number> = {};
+  aggregates
+    .filter(a => a.month >= startMonth && a.month <= endMonth)
+    .forEach(a => { totals[a.revenueType] = (totals[a.revenueType] || 0) + a.amount; });
+  return totals;
+};
+
+// Revenue bridge from the previous to the current total: one step per revenue type that changed,
+// largest change first, between the two totals
+export const buildRevenueBridge = (
+  previous: Record<string, number>, current: Record<string, number>, previousLabel: string, currentLabel: string
+): RevenueBridgeStep[] => {
+  const previousTotal = Object.values(previous).reduce((sum, v) => sum + v, 0);
+  const currentTotal = Object.values(current).reduce((sum, v) => sum + v, 0);
+  const changes = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]))
+    .map(name => ({ name, value: (current[name] || 0) - (previous[name] || 0) }))
+    .filter(c => Math.abs(c.value) >= 0.005)
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+  const totalStep = (name: string, total: number): RevenueBridgeStep =>
+    ({ name, kind: 'total', value: total, range: [Math.min(0, total), Math.max(0, total)] });
+
+  const steps: RevenueBridgeStep[] = [totalStep(previousLabel, previousTotal)];
+  let running = previousTotal;
+  changes.forEach(c => {
+    steps.push({
+      name: c.name,
+      kind: c.value >= 0 ? 'increase' : 'decrease',
+      value: c.value,
+      range: [Math.min(running, running + c.value), Math.max(running, running + c.value)]
+    });
+    running += c.value;
+  });
+  steps.push(totalStep(currentLabel, currentTotal));
+  return steps;
+};
+
+// Statistical Anomaly Detection
+// Records are first summed to monthly totals per revenue type (optionally per subcategory),
+// so a single large invoice in an otherwise normal month is not flagged. Months without
+// revenue inside a series count as zero. Each series is scored with the method and
+// thresholds from the settings (after per-type overrides). For the Z-score method, FLAT
+// pools every month of a series into one mean/stdDev, while SAME_MONTH and STL judge each
+// month against a seasonal baseline and fall back to median/MAD when the series does not
+// have enough history for that baseline.
+export const detectAnomalies = (
+  data: FinancialRecord[],
+  settings: AnomalySettings = DEFAULT_ANOMALY_SETTINGS
+): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  if (data.length === 0) return anomalies;
+
+  const groupedBySeries: Record<string, MonthlyAggregatedData[]> = {};
+  aggregateMonthly(data, settings.bySubCategory).forEach(point => {
+    const key = `${point.revenueType}|${point.subCategory ?? ''}`;
+    if (!groupedBySeries[key]) {
+      groupedBySeries[key] = [];
+    }
+    groupedBySeries[key].push(point);
+  });
+
+  const lastMonthIndex = Math.max(...data.map(r => toMonthIndex(r.date)));
+
+  Object.values(groupedBySeries).forEach(points => {
+    const { revenueType, subCategory } = points[0];
+    const byMonth: Record<number, MonthlyAggregatedData> = {};
+    points.forEach(p => { byMonth[toMonthIndex(parse(p.month, 'yyyy-MM', new Date()))] = p; });
+
+    const firstMonthIndex = Math.min(...Object.keys(byMonth).map(Number));
+    const series: MonthlyPoint[] = [];
+    for (let idx = firstMonthIndex; idx <= lastMonthIndex; idx++) {
+      series.push({ monthIndex: idx, value: byMonth[idx]?.amount ?? 0 });
     }
+
+    const { method, thresholds } = resolveAnomalyMethod(settings, revenueType);
+    const scorePoint = buildScorer(method, settings.seasonalBaseline, series);
+
+    series.forEach(point => {
+      const result = scorePoint(point);
+      if (!result) return;
+      if (Math.abs(point.value - result.expected) < settings.minAbsoluteAmount) return;
+
+      const absScore = Math.abs(result.score);
+      if (absScore > thresholds.low) {
+        let severity: 'LOW' | 'MEDIUM' | 'HIGH' = 'LOW';
+        if (absScore > thresholds.high) severity = 'HIGH';
+        else if (absScore > thresholds.medium) severity = 'MEDIUM';
+
+        // For Revenue: Positive Spike is Good (Greenish logic in head, but still anomaly), Negative is Bad.
+        const descNL = result.score > 0 ? 'Opvallende Omzetpiek' : 'Onverwachte Omzetdaling';
+        const descEN = result.score > 0 ? 'Revenue Spike' : 'Revenue Drop';
+
+        const date = fromMonthIndex(point.monthIndex);
+        anomalies.push({
+          id: `${revenueType}|${subCategory ?? ''}|${format(date, 'yyyy-MM')}`,
+          date,
+          revenueType,
+          subCategory,
+          amount: point.value,
+          expectedAmount: result.expected,
+          baseline: result.baseline,
+          method,
+          zScore: result.score,
+          severity,
+          description: descNL,
+          recordIds: byMonth[point.monthIndex]?.recordIds ?? []
+        });
+      }
+    });
   });
 
   return anomalies.sort((a, b) => b.date.getTime() - a.date.getTime());
 };
 
+// Score label for the anomaly list and exports, e.g. "Z: 2.31" or "+45%"
+export const formatAnomalyScore = (anomaly: Anomaly): string => {
+  switch (anomaly.method) {
+    case AnomalyMethod.MODIFIED_ZSCORE: return `Mz: ${anomaly.zScore.toFixed(2)}`;
+    case AnomalyMethod.IQR: return `IQR: ${anomaly.zScore.toFixed(2)}`;
+    case AnomalyMethod.PCT_PREV_MONTH:
+    case AnomalyMethod.PCT_YOY: return `${anomaly.zScore > 0 ? '+' : ''}${anomaly.zScore.toFixed(0)}%`;
+    default: return `Z: ${anomaly.zScore.toFixed(2)}`;
+  }
+};
+
+// Underlying records of a monthly anomaly, largest contributors first
+export const getAnomalyRecords = (anomaly: Anomaly, data: FinancialRecord[]): FinancialRecord[] => {
+  const ids = new Set(anomaly.recordIds);
+  return data
+    .filter(r => ids.has(r.id) && r.revenueType === anomaly.revenueType &&
+      toMonthIndex(r.date) === toMonthIndex(anomaly.date) &&
+      (anomaly.subCategory === undefined || (r.subCategory || '') === anomaly.subCategory))
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+};
+
 // Updated Lookup Rules based on Revenue Types
 export const DEFAULT_LOOKUP_RULES: LookupRule[] = [
   // 1. Terugkerende inkomsten
@@ -75,7 +684,7 @@ export const DEFAULT_LOOKUP_RULES: LookupRule[] = [
   { mainCategory: 'Terugkerende inkomsten', subCategory: 'Abonnementen', searchTerm: 'subscription' },
   { mainCategory: 'Terugkerende inkomsten', subCategory: 'Servicecontracten', searchTerm: 'servicecontract' },
   { mainCategory: 'Terugkerende inkomsten', subCategory: 'Support/maintenance fees', searchTerm: 'maintenance' },
-  { mainCategory: 'Terugkerende inkomsten', subCategory: 'SLA-contracten', searchTerm: 'sla' },
+  { mainCategory: 'Terugkerende inkomsten', subCategory: 'SLA-contracten', searchTerm: 'sla', matchType: RuleMatchType.WHOLE_WORD },
   { mainCategory: 'Terugkerende inkomsten', subCategory: 'Periodieke licenties', searchTerm: 'maandelijks' },
 
   // 2. Eenmalige inkomsten
@@ -114,31 +723,117 @@ export const DEFAULT_LOOKUP_RULES: LookupRule[] = [
   { mainCategory: 'Financiële inkomsten', subCategory: 'Rente', searchTerm: 'rente' },
   
   // 10. Advertentie-inkomsten
-  { mainCategory: 'Advertentie-inkomsten', subCategory: 'Display ads', searchTerm: 'ads' },
+  { mainCategory: 'Advertentie-inkomsten', subCategory: 'Display ads', searchTerm: 'ads', matchType: RuleMatchType.WHOLE_WORD },
   { mainCategory: 'Advertentie-inkomsten', subCategory: 'Sponsored content', searchTerm: 'sponsored' },
 ];
 
-// Logic to apply lookup rules to records
+// --- Lookup rule matching ---
+
+export const DEFAULT_RULE_FIELDS: RuleField[] = ['description', 'originalCategory'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Compiles the text test of a rule once; null when the pattern cannot match anything
+const buildTextMatcher = (rule: LookupRule): ((value: string) => boolean) | null => {
+  const term = rule.searchTerm.trim().toLowerCase();
+  if (!term) return null;
+
+  switch (rule.matchType || RuleMatchType.CONTAINS) {
+    case RuleMatchType.EXACT: return value => value.trim().toLowerCase() === term;
+    case RuleMatchType.PREFIX: return value => value.trim().toLowerCase().startsWith(term);
+    case RuleMatchType.WHOLE_WORD: {
+      // Letters and digits (including accented ones) count as word characters
+      const regex = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, 'iu');
+      return value => regex.test(value);
+    }
+    case RuleMatchType.REGEX: {
+      try {
+        const regex = new RegExp(rule.searchTerm.trim(), 'i');
+        return value => regex.test(value);
+      } catch {
+        return null;
+      }
+    }
+    default: return value => value.toLowerCase().includes(term);
+  }
+};
+
+// The error of an invalid regular expression, for the rule editor
+export const validateRulePattern = (rule: LookupRule): string | null => {
+  if (rule.matchType !== RuleMatchType.REGEX) return null;
+  try {
+    new RegExp(rule.searchTerm.trim(), 'i');
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+/**
+ * Compiles a rule into a record test: the search term against each of the rule's fields, then
+ * the amount range and the validity window. Compile once and reuse across records.
+ */
+export const compileRule = (rule: LookupRule): ((record: FinancialRecord) => boolean) => {
+  const textMatches = buildTextMatcher(rule);
+  if (!textMatches) return () => false;
+  const fields = rule.fields && rule.fields.length > 0 ? rule.fields : DEFAULT_RULE_FIELDS;
+
+  return record => {
+    if (rule.minAmount !== undefined && record.amount < rule.minAmount) return false;
+    if (rule.maxAmount !== undefined && record.amount > rule.maxAmount) return false;
+    if (rule.validFrom || rule.validTo) {
+      const day = format(record.date, 'yyyy-MM-dd');
+      if (rule.validFrom && day < rule.validFrom) return false;
+      if (rule.validTo && day > rule.validTo) return false;
+    }
+    return fields.some(field => {
+      const value = record[field];
+      return !!value && textMatches(value);
+    });
+  };
+};
+
+export const matchesRule = (record: FinancialRecord, rule: LookupRule): boolean => compileRule(rule)(record);
+
+// Order in which rules are tried: priority high to low, list order within the same priority
+export const sortRulesByPriority = (rules: LookupRule[]): LookupRule[] =>
+  rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority || 0) - (a.rule.priority || 0) || a.index - b.index)
+    .map(({ rule }) => rule);
+
+// Short readable form of a rule, stored on the records it classifies
+export const describeRule = (rule: LookupRule): string => {
+  const target = rule.subCategory ? `${rule.mainCategory} / ${rule.subCategory}` : rule.mainCategory;
+  const matchType = rule.matchType && rule.matchType !== RuleMatchType.CONTAINS ? ` (${rule.matchType.toLowerCase().replace('_', ' ')})` : '';
+  return `${target} ← "${rule.searchTerm}"${matchType}`;
+};
+
+// Logic to apply lookup rules to records. The first matching rule in priority order wins;
+// `matchCounts` holds the number of records each rule classified, in the order of `rules`.
 export const applyLookupRules = (records: FinancialRecord[], rules: LookupRule[]) => {
   const processedRecords: FinancialRecord[] = [];
   const unmatchedItems: Set<string> = new Set();
+  const ordered = sortRulesByPriority(rules).map(rule => ({ rule, test: compileRule(rule) }));
+  const counts = new Map<LookupRule, number>();
 
   records.forEach(record => {
-    const textToSearch = `${record.description || ''} ${record.originalCategory || ''}`.toLowerCase();
-    
-    const match = rules.find(rule => textToSearch.includes(rule.searchTerm.toLowerCase()));
+    const match = ordered.find(({ test }) => test(record))?.rule;
 
     if (match) {
+      counts.set(match, (counts.get(match) || 0) + 1);
       processedRecords.push({
         ...record,
         revenueType: match.mainCategory,
-        subCategory: match.subCategory
+        subCategory: match.subCategory,
+        matchedRule: describeRule(match)
       });
     } else {
       processedRecords.push({
         ...record,
         revenueType: 'Onbekend', // Mark as Unknown
-        subCategory: 'Niet geclassificeerd'
+        subCategory: 'Niet geclassificeerd',
+        matchedRule: undefined
       });
       // Add the potential search term to unmatched list
       if (record.description) unmatchedItems.add(record.description);
@@ -146,20 +841,154 @@ export const applyLookupRules = (records: FinancialRecord[], rules: LookupRule[]
     }
   });
 
-  return { processedRecords, unmatchedItems: Array.from(unmatchedItems) };
+  return {
+    processedRecords,
+    unmatchedItems: Array.from(unmatchedItems),
+    matchCounts: rules.map(rule => counts.get(rule) || 0)
+  };
+};
+
+/**
+ * What a rule would do at `position` in the rule list (priority first, then list order; first
+ * match wins). `rules` is the list without the rule itself; `current` is the list as applied
+ * now, to tell which records the rule takes over from another rule and which ones it
+ * classifies for the first time.
+ */
+export const previewLookupRule = (
+  records: FinancialRecord[],
+  rules: LookupRule[],
+  current: LookupRule[],
+  draft: LookupRule,
+  position: number
+): RulePreview => {
+  const preview: RulePreview = { matched: 0, won: [], taken: [], shadowed: [], newlyClassified: 0 };
+  const ordered = sortRulesByPriority([...rules.slice(0, position), draft, ...rules.slice(position)]);
+  const earlier = ordered.slice(0, ordered.indexOf(draft)).map(rule => ({ rule, test: compileRule(rule) }));
+  const currentOrder = sortRulesByPriority(current).map(rule => ({ rule, test: compileRule(rule) }));
+  const draftTest = compileRule(draft);
+
+  records.forEach(record => {
+    if (!draftTest(record)) return;
+    preview.matched++;
+
+    const winner = earlier.find(({ test }) => test(record));
+    if (winner) {
+      preview.shadowed.push({ record, rule: winner.rule });
+      return;
+    }
+    preview.won.push(record);
+
+    const currentMatch = currentOrder.find(({ test }) => test(record))?.rule;
+    if (!currentMatch) preview.newlyClassified++;
+    else if (rules.includes(currentMatch)) preview.taken.push({ record, rule: currentMatch });
+  });
+
+  return preview;
+};
+
+// Text an unclassified record is listed under in the Unmatched panel
+export const unmatchedText = (record: FinancialRecord): string => record.description || record.originalCategory || '';
+
+// Unclassified records grouped by their text, largest euro total first
+export const summarizeUnmatched = (records: FinancialRecord[]): { text: string; count: number; total: number }[] => {
+  const groups = new Map<string, { text: string; count: number; total: number }>();
+  records.forEach(record => {
+    const text = unmatchedText(record);
+    if (record.matchedRule || !text) return;
+    const group = groups.get(text) || { text, count: 0, total: 0 };
+    group.count++;
+    group.total += record.amount;
+    groups.set(text, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => Math.abs(b.total) - Math.abs(a.total) || b.count - a.count);
+};
+
+const MIN_SUGGESTED_TERM = 3;
+
+/**
+ * Proposes a search term for a set of unmatched texts: the longest word they all contain
+ * (matched as a whole word), else their longest common prefix, else the text itself when
+ * there is only one. Numbers are skipped, since they are usually invoice or period references.
+ */
+export const suggestSearchTerm = (texts: string[]): { searchTerm: string; matchType: RuleMatchType } | null => {
+  const lowered = texts.map(t => t.toLowerCase().trim()).filter(Boolean);
+  if (lowered.length === 0) return null;
+
+  const tokenize = (text: string) => new Set(text.split(/[^\p{L}\p{N}]+/u).filter(t => t.length >= MIN_SUGGESTED_TERM && !/^\d+$/.test(t)));
+  const [first, ...rest] = lowered.map(tokenize);
+  const common = Array.from(first).filter(token => rest.every(tokens => tokens.has(token)));
+  if (common.length > 0) {
+    const longest = common.reduce((best, t) => t.length > best.length ? t : best);
+    return { searchTerm: longest, matchType: RuleMatchType.WHOLE_WORD };
+  }
+
+  let prefix = lowered[0];
+  lowered.slice(1).forEach(text => {
+    let i = 0;
+    while (i < prefix.length && i < text.length && prefix[i] === text[i]) i++;
+    prefix = prefix.slice(0, i);
+  });
+  prefix = prefix.trim();
+  if (prefix.length >= MIN_SUGGESTED_TERM) return { searchTerm: prefix, matchType: RuleMatchType.PREFIX };
+
+  if (lowered.length === 1) return { searchTerm: lowered[0], matchType: RuleMatchType.EXACT };
+  return null;
+};
+
+// Columns of the rule sheet; everything after Zoekterm is optional
+const RULE_HEADERS = [
+  'Hoofdsoort', 'Subcategorie', 'Zoekterm', 'Matchtype', 'Velden', 'Min bedrag', 'Max bedrag', 'Geldig vanaf', 'Geldig tot', 'Prioriteit'
+];
+const RULE_COLS = [{ wch: 30 }, { wch: 30 }, { wch: 40 }, { wch: 12 }, { wch: 30 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 10 }];
+
+const ruleToRow = (r: LookupRule) => [
+  r.mainCategory, r.subCategory, r.searchTerm, r.matchType || RuleMatchType.CONTAINS,
+  (r.fields && r.fields.length > 0 ? r.fields : DEFAULT_RULE_FIELDS).join(', '),
+  r.minAmount ?? '', r.maxAmount ?? '', r.validFrom || '', r.validTo || '', r.priority || 0
+];
+
+const RULE_FIELDS: RuleField[] = ['description', 'originalCategory', 'ledger', 'customer'];
+
+// Rows of an uploaded rule sheet (header row first) -> rules; rows without category or term are skipped
+export const parseLookupRules = (data: any[][]): LookupRule[] => {
+  const text = (value: any) => value === undefined || value === null ? '' : String(value).trim();
+  const number = (value: any) => text(value) === '' ? undefined : parseAmount(value);
+  const day = (value: any) => {
+    if (text(value) === '') return undefined;
+    const date = parseDateValue(value);
+    return isNaN(date.getTime()) ? undefined : format(date, 'yyyy-MM-dd');
+  };
+
+  return data.slice(1).map(row => {
+    const matchType = text(row[3]).toUpperCase().replace(/[\s-]+/g, '_') as RuleMatchType;
+    const fields = text(row[4]).split(/[,;]/).map(f => f.trim()).filter((f): f is RuleField => RULE_FIELDS.includes(f as RuleField));
+    const rule: LookupRule = {
+      mainCategory: text(row[0]),
+      subCategory: text(row[1]),
+      searchTerm: text(row[2])
+    };
+    if (Object.values(RuleMatchType).includes(matchType) && matchType !== RuleMatchType.CONTAINS) rule.matchType = matchType;
+    if (fields.length > 0) rule.fields = fields;
+    if (number(row[5]) !== undefined) rule.minAmount = number(row[5]);
+    if (number(row[6]) !== undefined) rule.maxAmount = number(row[6]);
+    if (day(row[7])) rule.validFrom = day(row[7]);
+    if (day(row[8])) rule.validTo = day(row[8]);
+    if (number(row[9])) rule.priority = number(row[9]);
+    return rule;
+  }).filter(r => r.mainCategory && r.searchTerm);
+};
+
+// Rule sheet in the upload format, so a download can be edited and uploaded again
+export const createLookupRulesSheet = (rules: LookupRule[]): XLSX.WorkSheet => {
+  const ws = XLSX.utils.aoa_to_sheet([RULE_HEADERS, ...rules.map(ruleToRow)]);
+  ws['!cols'] = RULE_COLS;
+  return ws;
 };
 
 // Generate Excel for Lookup Rules (Standalone download)
 export const downloadLookupTemplate = (currentRules: LookupRule[]) => {
-  const headers = ['Hoofdsoort', 'Subcategorie', 'Zoekterm'];
-  const rows = currentRules.map(r => [r.mainCategory, r.subCategory, r.searchTerm]);
-  
   const wb = XLSX.utils.book_new();
-  const ws = XLSX.utils.aoa_to_sheet([headers, ...rows]);
-  const wscols = [{ wch: 30 }, { wch: 30 }, { wch: 30 }];
-  ws['!cols'] = wscols;
-
-  XLSX.utils.book_append_sheet(wb, ws, "LookupRules");
+  XLSX.utils.book_append_sheet(wb, createLookupRulesSheet(currentRules), "LookupRules");
   XLSX.writeFile(wb, "omzet_lookup_regels.xlsx");
 };
 
@@ -169,16 +998,16 @@ export const generateDemoData = (): FinancialRecord[] => {
   const records: FinancialRecord[] = [];
   const today = new Date();
 
-  // Define generators for Revenue Types
+  // Define generators for Revenue Types; the monthly amount is split over the customers by weight
   const generators = [
-    { type: 'Terugkerende inkomsten', desc: 'SaaS Abonnement Enterprise', base: 15000, trend: 1.05 }, // Growing MRR
-    { type: 'Terugkerende inkomsten', desc: 'Servicecontract Onderhoud', base: 5000, trend: 1.0 },
-    { type: 'Eenmalige inkomsten', desc: 'Implementatie Project X', base: 12000, trend: 1 }, // Spiky
-    { type: 'Licentie-inkomsten', desc: 'Softwarelicenties Jaarlijks', base: 25000, trend: 1.02 },
-    { type: 'Dienstverlening', desc: 'Consultancy Uren', base: 8000, trend: 1 },
-    { type: 'Productverkoop', desc: 'Hardware Levering', base: 4000, trend: 1 },
-    { type: 'Transactionele inkomsten', desc: 'Marketplace Fees', base: 2000, trend: 1.1 },
-    { type: 'Onbekend', desc: 'Bijschrijving XYZ', base: 500, trend: 1 },
+    { type: 'Terugkerende inkomsten', desc: 'SaaS Abonnement Enterprise', base: 15000, trend: 1.05, customers: { 'Klant A': 5, 'Klant B': 3, 'Klant C': 2 } }, // Growing MRR
+    { type: 'Terugkerende inkomsten', desc: 'Servicecontract Onderhoud', base: 5000, trend: 1.0, customers: { 'Klant B': 1, 'Klant D': 1 } },
+    { type: 'Eenmalige inkomsten', desc: 'Implementatie Project X', base: 12000, trend: 1, customers: { 'Klant E': 1 } }, // Spiky
+    { type: 'Licentie-inkomsten', desc: 'Softwarelicenties Jaarlijks', base: 25000, trend: 1.02, customers: { 'Klant A': 3, 'Klant F': 1 } },
+    { type: 'Dienstverlening', desc: 'Consultancy Uren', base: 8000, trend: 1, customers: { 'Klant C': 1, 'Klant G': 1 } },
+    { type: 'Productverkoop', desc: 'Hardware Levering', base: 4000, trend: 1, customers: { 'Klant H': 1 } },
+    { type: 'Transactionele inkomsten', desc: 'Marketplace Fees', base: 2000, trend: 1.1, customers: { 'Klant I': 1 } },
+    { type: 'Onbekend', desc: 'Bijschrijving XYZ', base: 500, trend: 1, customers: { '': 1 } },
   ];
 
   for (let i = 24; i >= 0; i--) {
@@ -195,13 +1024,22 @@ export const generateDemoData = (): FinancialRecord[] => {
       // Drop in consultancy in summer
       if (gen.type === 'Dienstverlening' && (monthDate.getMonth() === 6 || monthDate.getMonth() === 7)) amount *= 0.5;
 
-      records.push({
-        id: `${i}-${idx}`,
-        date: monthDate,
-        revenueType: gen.type,
-        description: gen.desc,
-        originalCategory: 'Verkoop',
-        amount: Math.round(amount)
+      // Churn for the customer analysis: one service contract stopped, one customer scaled down
+      const weights = Object.entries(gen.customers)
+        .filter(([customer]) => !(customer === 'Klant D' && i < 3))
+        .map(([customer, weight]) => [customer, customer === 'Klant C' && i < 3 ? weight * 0.4 : weight] as [string, number]);
+      const totalWeight = Object.values(gen.customers).reduce((sum, w) => sum + w, 0);
+
+      weights.forEach(([customer, weight], c) => {
+        records.push({
+          id: `${i}-${idx}-${c}`,
+          date: monthDate,
+          revenueType: gen.type,
+          description: gen.desc,
+          originalCategory: 'Verkoop',
+          amount: Math.round(amount * weight / totalWeight),
+          customer: customer || undefined
+        });
       });
     });
   }
@@ -228,14 +1066,17 @@ export const downloadTemplate = (currentRules: LookupRule[]) => {
   XLSX.utils.book_append_sheet(wb, wsData, "OmzetTemplate");
 
   // --- Sheet 2: Lookup Rules ---
-  const ruleHeaders = ['Hoofdsoort', 'Subcategorie', 'Zoekterm'];
-  const ruleRows = currentRules.map(r => [r.mainCategory, r.subCategory, r.searchTerm]);
-  
-  const wsRules = XLSX.utils.aoa_to_sheet([ruleHeaders, ...ruleRows]);
-  const wsRulesCols = [{ wch: 30 }, { wch: 30 }, { wch: 40 }];
-  wsRules['!cols'] = wsRulesCols;
+  XLSX.utils.book_append_sheet(wb, createLookupRulesSheet(currentRules), "LookupReferenties");
+
+  // --- Sheet 3: Budget (one row per month x revenue type) ---
+  const budgetHeaders = ['Maand', 'Omzetsoort', 'Budget'];
+  const budgetTypes = Array.from(new Set(currentRules.map(r => r.mainCategory))).slice(0, 3);
+  const budgetRows = ['2024-01', '2024-02', '2024-03'].flatMap(month => budgetTypes.map(type => [month, type, 10000]));
+
+  const wsBudget = XLSX.utils.aoa_to_sheet([budgetHeaders, ...budgetRows]);
+  wsBudget['!cols'] = [{ wch: 12 }, { wch: 30 }, { wch: 15 }];
 
-  XLSX.utils.book_append_sheet(wb, wsRules, "LookupReferenties");
+  XLSX.utils.book_append_sheet(wb, wsBudget, "Budget");
 
   // Write file
   XLSX.writeFile(wb, "omzet_trendanalyse_template.xlsx");